@@ -0,0 +1,115 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuSub,
+  DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { BookOpen, ChevronDown, Download, Trash2, Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { exportWordList, getDictionaryWords, importWordList, removeCustomWord, type DictionaryName } from '@/lib/customDictionary';
+
+interface DictionaryMenuProps {
+  onDictionaryChange?: () => void;
+}
+
+const dictionaryLabels: Record<DictionaryName, string> = {
+  personal: 'Kamus Pribadi',
+  team: 'Kamus Tim',
+};
+
+const dictionaryFilenames: Record<DictionaryName, string> = {
+  personal: 'kamus_pribadi.txt',
+  team: 'kamus_tim.txt',
+};
+
+export const DictionaryMenu = ({ onDictionaryChange }: DictionaryMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const added = importWordList(await file.text(), 'team');
+      toast({
+        title: 'Kamus tim diperbarui',
+        description: `${added} kata baru ditambahkan dari ${file.name}`,
+      });
+      if (added > 0) onDictionaryChange?.();
+    } catch (error) {
+      console.error('Error importing word list:', error);
+    }
+  };
+
+  const handleExport = (name: DictionaryName) => {
+    const blob = new Blob([exportWordList(name)], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = dictionaryFilenames[name];
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRemove = (word: string, name: DictionaryName) => {
+    removeCustomWord(word, name);
+    toast({
+      title: `Kata dihapus dari ${dictionaryLabels[name].toLowerCase()}`,
+      description: `"${word}" akan diperiksa lagi seperti kata lain`,
+    });
+    onDictionaryChange?.();
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".txt,text/plain"
+        className="hidden"
+        onChange={handleImport}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <BookOpen className="w-4 h-4 mr-2" />
+            Kamus
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Impor Daftar Kata ke Kamus Tim
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {(['personal', 'team'] as DictionaryName[]).map(name => (
+            <DropdownMenuItem key={name} onClick={() => handleExport(name)}>
+              <Download className="w-4 h-4 mr-2" />
+              Ekspor {dictionaryLabels[name]} ({getDictionaryWords(name).length} kata)
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {(['personal', 'team'] as DictionaryName[]).map(name => (
+            <DropdownMenuSub key={name}>
+              <DropdownMenuSubTrigger disabled={getDictionaryWords(name).length === 0}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Hapus Kata dari {dictionaryLabels[name]}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                {getDictionaryWords(name).map(word => (
+                  <DropdownMenuItem key={word} onClick={() => handleRemove(word, name)}>
+                    {word}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
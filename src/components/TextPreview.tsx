@@ -2,28 +2,66 @@ import { useState, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { FileText, Download, AlertTriangle, CheckCircle, XCircle, ChevronDown } from 'lucide-react';
+import { FileText, Download, AlertTriangle, CheckCircle, XCircle, ChevronDown, BookPlus, Copy, CheckCheck, Hash } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getRule, type RuleCategory } from '@/lib/ruleRegistry';
+import { bestFix, type Fix } from '@/lib/corrections';
+import { addCustomWord } from '@/lib/customDictionary';
+import { toast } from '@/hooks/use-toast';
+import { DictionaryMenu } from '@/components/DictionaryMenu';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
 
 
 interface Error {
-  type: 'grammar' | 'spelling' | 'misspelling' | 'informal' | 'punctuation' | 'capitalization' | 'format';
+  type: 'grammar' | 'spelling' | 'misspelling' | 'informal' | 'affixation' | 'punctuation' | 'capitalization' | 'number' | 'format';
   text: string;
-  suggestion: string;
+  message: string;
+  shortMessage: string;
+  replacements: string[];
   start: number;
   end: number;
+  ruleId: string;
+  severity: 'error' | 'warning' | 'hint';
+  confidence: number;
 }
 
 interface TextPreviewProps {
   content: string;
   filename: string;
   errors: Error[];
+  // Called after words are added to a custom dictionary, so the text can be checked again
+  onDictionaryChange?: () => void;
+  // Called with the replacements the user accepted
+  onApplyFixes?: (fixes: Fix[]) => void;
 }
 
-export const TextPreview = ({ content, filename, errors }: TextPreviewProps) => {
+// Findings below this confidence can be hidden
+const LOW_CONFIDENCE = 0.5;
+
+const severityNames: Record<Error['severity'], string> = {
+  error: 'Kesalahan',
+  warning: 'Peringatan',
+  hint: 'Saran',
+};
+
+const categoryNames: Record<RuleCategory, string> = {
+  'spelling': 'Ejaan',
+  'word-formation': 'Pembentukan Kata',
+  'punctuation': 'Tanda Baca',
+  'capitalization': 'Kapitalisasi',
+  'grammar': 'Tata Bahasa',
+  'style': 'Gaya Bahasa',
+  'number': 'Penulisan Angka',
+  'format': 'Format Dokumen',
+};
+
+export const TextPreview = ({ content, filename, errors: allErrors, onDictionaryChange, onApplyFixes }: TextPreviewProps) => {
   const [selectedError, setSelectedError] = useState<Error | null>(null);
+  const [hideLowConfidence, setHideLowConfidence] = useState(false);
+  const errors = hideLowConfidence ? allErrors.filter(error => error.confidence >= LOW_CONFIDENCE) : allErrors;
   const errorDetailsRef = useRef<HTMLDivElement>(null);
 
   const handleErrorClick = (error: Error) => {
@@ -37,6 +75,52 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
     }, 100);
   };
 
+  const handleAddToDictionary = (error: Error) => {
+    const added = addCustomWord(error.text, 'personal');
+    toast({
+      title: added ? 'Kata ditambahkan ke kamus pribadi' : 'Kata sudah ada di kamus pribadi',
+      description: `"${error.text}" tidak akan ditandai lagi sebagai salah ejaan`,
+    });
+    setSelectedError(null);
+    onDictionaryChange?.();
+  };
+
+  // Best-replacement fixes for every error matching the predicate
+  const fixesWhere = (predicate: (error: Error) => boolean): Fix[] =>
+    errors.filter(predicate).map(bestFix).filter((fix): fix is Fix => fix !== null);
+
+  const getCategory = (error: Error): RuleCategory | undefined => getRule(error.ruleId)?.category;
+
+  const handleApplyFixes = (fixes: Fix[]) => {
+    if (fixes.length === 0) return;
+    onApplyFixes?.(fixes);
+    setSelectedError(null);
+    toast({
+      title: fixes.length === 1 ? 'Perbaikan diterapkan' : `${fixes.length} perbaikan diterapkan`,
+    });
+  };
+
+  const downloadText = () => {
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${filename.replace(/\.[^/.]+$/, '')}_perbaikan.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const copyText = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      toast({ title: 'Teks disalin ke papan klip' });
+    } catch (error) {
+      console.error('Error copying text:', error);
+    }
+  };
+
   const getErrorColor = (type: Error['type']) => {
     switch (type) {
       case 'grammar':
@@ -47,10 +131,14 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
         return 'bg-red-500 text-white';
       case 'informal':
         return 'bg-blue-500 text-white';
+      case 'affixation':
+        return 'bg-purple-500 text-white';
       case 'punctuation':
         return 'bg-destructive text-destructive-foreground';
       case 'capitalization':
         return 'bg-primary text-primary-foreground';
+      case 'number':
+        return 'bg-teal-500 text-white';
       case 'format':
         return 'bg-orange-500 text-white';
       default:
@@ -58,6 +146,28 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
     }
   };
 
+  // Errors are filled in, warnings and uncertain findings are lighter and
+  // hints are only underlined
+  const getSeverityStyle = (error: Error) => {
+    if (error.severity === 'hint') return 'bg-transparent text-black underline decoration-dotted decoration-2 underline-offset-4';
+    if (error.confidence < LOW_CONFIDENCE) return 'opacity-60';
+    if (error.severity === 'warning') return 'opacity-80';
+    return '';
+  };
+
+  const getSeverityBadgeVariant = (severity: Error['severity']) => {
+    switch (severity) {
+      case 'error':
+        return 'destructive';
+      case 'warning':
+        return 'default';
+      default:
+        return 'outline';
+    }
+  };
+
+  const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
   const getErrorIcon = (type: Error['type']) => {
     switch (type) {
       case 'grammar':
@@ -68,6 +178,10 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
         return <XCircle className="w-4 h-4" />;
       case 'informal':
         return <AlertTriangle className="w-4 h-4" />;
+      case 'affixation':
+        return <XCircle className="w-4 h-4" />;
+      case 'number':
+        return <Hash className="w-4 h-4" />;
       case 'format':
         return <FileText className="w-4 h-4" />;
       default:
@@ -194,7 +308,7 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
       new Paragraph({
         children: [
           new TextRun({
-            text: `${index + 1}. ${getErrorTypeName(error.type)}`,
+            text: `${index + 1}. ${getErrorTypeName(error.type)}: ${error.shortMessage} (${severityNames[error.severity]}, keyakinan ${formatConfidence(error.confidence)})`,
             bold: true,
             size: 22
           })
@@ -237,7 +351,11 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
       new Paragraph({
         children: [
           new TextRun({ text: "Saran: ", bold: true }),
-          new TextRun({ text: error.suggestion })
+          new TextRun({ text: error.message }),
+          ...(error.replacements.length > 0 ? [
+            new TextRun({ text: "Ganti dengan: ", bold: true, break: 1 }),
+            new TextRun({ text: error.replacements.map(replacement => `"${replacement}"`).join(' atau ') })
+          ] : [])
         ],
         shading: {
           type: 'solid',
@@ -262,8 +380,10 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
       case 'spelling': return 'yellow';
       case 'misspelling': return 'red';
       case 'informal': return 'cyan';
+      case 'affixation': return 'magenta';
       case 'punctuation': return 'red';
       case 'capitalization': return 'blue';
+      case 'number': return 'green';
       case 'format': return 'yellow';
       default: return 'lightGray';
     }
@@ -275,8 +395,10 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
       case 'spelling': return 'FFF3E0'; // Light orange  
       case 'misspelling': return 'FFEBEE'; // Light red
       case 'informal': return 'E3F2FD'; // Light blue
+      case 'affixation': return 'F3E5F5'; // Light purple
       case 'punctuation': return 'FFEBEE'; // Light red
       case 'capitalization': return 'E8EAF6'; // Light indigo
+      case 'number': return 'E0F2F1'; // Light teal
       case 'format': return 'FFF3E0'; // Light orange
       default: return 'F5F5F5'; // Light gray
     }
@@ -288,8 +410,10 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
       case 'spelling': return 'F57C00'; // Dark orange
       case 'misspelling': return 'D32F2F'; // Dark red
       case 'informal': return '1976D2'; // Dark blue
+      case 'affixation': return '7B1FA2'; // Dark purple
       case 'punctuation': return 'D32F2F'; // Dark red
       case 'capitalization': return '303F9F'; // Dark indigo
+      case 'number': return '00796B'; // Dark teal
       case 'format': return 'F57C00'; // Dark orange
       default: return '757575'; // Dark gray
     }
@@ -301,8 +425,10 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
       spelling: 'Kata Tidak Dikenal',
       misspelling: 'Kesalahan Pengetikan',
       informal: 'Kata Tidak Baku',
+      affixation: 'Kesalahan Pembentukan Kata',
       punctuation: 'Kesalahan Tanda Baca',
       capitalization: 'Kesalahan Kapitalisasi',
+      number: 'Kesalahan Penulisan Angka',
       format: 'Kesalahan Format Dokumen'
     };
     return names[type] || type;
@@ -312,14 +438,28 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
   const highlightErrors = (text: string) => {
     if (errors.length === 0) return text;
 
-    const sortedErrors = [...errors].sort((a, b) => a.start - b.start);
+    // Overlapping errors (" tetapi" and "tetapi") share one highlight that
+    // covers all of them; the first one is selected on click and lists the others
+    const groups: { start: number; end: number; errors: Error[] }[] = [];
+    [...errors].sort((a, b) => a.start - b.start).forEach(error => {
+      const group = groups[groups.length - 1];
+      if (group && error.start < group.end) {
+        group.errors.push(error);
+        group.end = Math.max(group.end, error.end);
+      } else {
+        groups.push({ start: error.start, end: error.end, errors: [error] });
+      }
+    });
+
     let result = [];
     let lastIndex = 0;
 
-    sortedErrors.forEach((error, index) => {
+    groups.forEach((group, index) => {
+      const [error] = group.errors;
+
       // Add text before error
-      if (error.start > lastIndex) {
-        result.push(text.slice(lastIndex, error.start));
+      if (group.start > lastIndex) {
+        result.push(text.slice(lastIndex, group.start));
       }
 
       // Add highlighted error text
@@ -328,16 +468,19 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
           key={index}
           className={cn(
             "cursor-pointer rounded px-1 transition-all duration-200 hover:opacity-80",
-            getErrorColor(error.type)
+            getErrorColor(error.type),
+            getSeverityStyle(error)
           )}
           onClick={() => handleErrorClick(error)}
-          title={`${error.type}: ${error.suggestion}`}
+          title={group.errors
+            .map(item => `${item.shortMessage} (${severityNames[item.severity]}, keyakinan ${formatConfidence(item.confidence)}): ${item.message}`)
+            .join('\n')}
         >
-          {error.text}
+          {text.slice(group.start, group.end)}
         </span>
       );
 
-      lastIndex = error.end;
+      lastIndex = group.end;
     });
 
     // Add remaining text
@@ -348,11 +491,28 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
     return result;
   };
 
+  // Other errors in the same highlight as the selected one
+  const overlappingErrors = selectedError
+    ? errors.filter(error => error !== selectedError && error.start < selectedError.end && selectedError.start < error.end)
+    : [];
+
+  // Bulk fixes offered for the selected error's rule and category
+  const selectedCategory = selectedError ? getCategory(selectedError) : undefined;
+  const selectedRuleFixes = selectedError ? fixesWhere(error => error.ruleId === selectedError.ruleId) : [];
+  const selectedCategoryFixes = selectedCategory ? fixesWhere(error => getCategory(error) === selectedCategory) : [];
+
   const errorCounts = errors.reduce((acc, error) => {
     acc[error.type] = (acc[error.type] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
+  const severityCounts = errors.reduce((acc, error) => {
+    acc[error.severity] = (acc[error.severity] || 0) + 1;
+    return acc;
+  }, {} as Record<Error['severity'], number>);
+
+  const hiddenCount = allErrors.length - errors.length;
+
   return (
     <div className="space-y-6">
       {/* File Info */}
@@ -369,31 +529,64 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
               </p>
             </div>
           </div>
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="outline" size="sm">
-                <Download className="w-4 h-4 mr-2" />
-                Unduh Hasil
-                <ChevronDown className="w-4 h-4 ml-1" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={downloadDOCX}>
-                <FileText className="w-4 h-4 mr-2" />
-                Download sebagai DOCX
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <div className="flex items-center gap-2">
+            <DictionaryMenu onDictionaryChange={onDictionaryChange} />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="w-4 h-4 mr-2" />
+                  Unduh Hasil
+                  <ChevronDown className="w-4 h-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={downloadDOCX}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Download sebagai DOCX
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={downloadText}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Unduh Teks Hasil Perbaikan (.txt)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={copyText}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Salin Teks Hasil Perbaikan
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </Card>
 
       {/* Error Summary */}
-      {errors.length > 0 && (
+      {allErrors.length > 0 && (
         <Card className="p-4">
-          <h3 className="font-semibold mb-4 flex items-center gap-2">
-            <AlertTriangle className="w-5 h-5 text-warning" />
-            Ringkasan Kesalahan
-          </h3>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="font-semibold flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-warning" />
+              Ringkasan Kesalahan
+            </h3>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="hide-low-confidence"
+                checked={hideLowConfidence}
+                onCheckedChange={setHideLowConfidence}
+              />
+              <Label htmlFor="hide-low-confidence" className="text-sm">
+                Sembunyikan temuan berkeyakinan rendah
+                {hideLowConfidence && hiddenCount > 0 && ` (${hiddenCount} disembunyikan)`}
+              </Label>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {(['error', 'warning', 'hint'] as Error['severity'][])
+              .filter(severity => severityCounts[severity])
+              .map(severity => (
+                <Badge key={severity} variant={getSeverityBadgeVariant(severity)}>
+                  {severityNames[severity]}: {severityCounts[severity]}
+                </Badge>
+              ))}
+          </div>
           <div className="flex flex-wrap gap-2">
             {Object.entries(errorCounts).map(([type, count]) => (
               <Badge key={type} variant="secondary" className="gap-1">
@@ -402,8 +595,10 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
                 {type === 'spelling' && 'Kata Tidak Dikenal'}
                 {type === 'misspelling' && 'Salah Ketik'}
                 {type === 'informal' && 'Kata Tidak Baku'}
+                {type === 'affixation' && 'Pembentukan Kata'}
                 {type === 'punctuation' && 'Tanda Baca'}
                 {type === 'capitalization' && 'Kapitalisasi'}
+                {type === 'number' && 'Penulisan Angka'}
                 {type === 'format' && 'Format Dokumen'}
                 : {count}
               </Badge>
@@ -453,16 +648,83 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
                 {selectedError.type === 'spelling' && 'Kata Tidak Dikenal'}
                 {selectedError.type === 'misspelling' && 'Kesalahan Pengetikan'}
                 {selectedError.type === 'informal' && 'Kata Tidak Baku'}
+                {selectedError.type === 'affixation' && 'Kesalahan Pembentukan Kata'}
                 {selectedError.type === 'punctuation' && 'Kesalahan Tanda Baca'}
                 {selectedError.type === 'capitalization' && 'Kesalahan Kapitalisasi'}
+                {selectedError.type === 'number' && 'Kesalahan Penulisan Angka'}
                 {selectedError.type === 'format' && 'Kesalahan Format Dokumen'}
               </h4>
               <p className="text-sm text-muted-foreground mb-2">
                 Ditemukan: <span className="font-mono bg-muted px-1 rounded">"{selectedError.text}"</span>
               </p>
+              <p className="text-sm text-muted-foreground mb-2">
+                Tingkat: {severityNames[selectedError.severity]} • Keyakinan {formatConfidence(selectedError.confidence)}
+              </p>
               <p className="text-sm">
-                <strong>Saran:</strong> {selectedError.suggestion}
+                <strong>Saran:</strong> {selectedError.message}
+              </p>
+              {selectedError.replacements.length > 0 && selectedError.end > selectedError.start && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                  <strong>Ganti dengan:</strong>
+                  {selectedError.replacements.map(replacement => (
+                    <Button
+                      key={replacement}
+                      variant="outline"
+                      size="sm"
+                      className="font-mono"
+                      onClick={() => handleApplyFixes([{ error: selectedError, replacement }])}
+                    >
+                      {replacement.trim() ? replacement : '␣'}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {(selectedRuleFixes.length > 1 || selectedCategoryFixes.length > 1) && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {selectedRuleFixes.length > 1 && (
+                    <Button variant="secondary" size="sm" onClick={() => handleApplyFixes(selectedRuleFixes)}>
+                      <CheckCheck className="w-4 h-4 mr-2" />
+                      Terapkan semua dari aturan ini ({selectedRuleFixes.length})
+                    </Button>
+                  )}
+                  {selectedCategory && selectedCategoryFixes.length > selectedRuleFixes.length && (
+                    <Button variant="secondary" size="sm" onClick={() => handleApplyFixes(selectedCategoryFixes)}>
+                      <CheckCheck className="w-4 h-4 mr-2" />
+                      Terapkan semua kategori {categoryNames[selectedCategory]} ({selectedCategoryFixes.length})
+                    </Button>
+                  )}
+                </div>
+              )}
+              {overlappingErrors.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                  <strong>Temuan lain di bagian ini:</strong>
+                  {overlappingErrors.map(error => (
+                    <Button
+                      key={`${error.ruleId}-${error.start}-${error.end}`}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleErrorClick(error)}
+                    >
+                      {error.shortMessage}: "{error.text}"
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground mt-2">
+                Aturan: <span className="font-mono">{selectedError.ruleId}</span>
+                {getRule(selectedError.ruleId) && ` — ${getRule(selectedError.ruleId)?.description}`}
               </p>
+              {selectedError.ruleId === 'kbbi-spelling' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-3"
+                  onClick={() => handleAddToDictionary(selectedError)}
+                >
+                  <BookPlus className="w-4 h-4 mr-2" />
+                  Tambahkan ke Kamus
+                </Button>
+              )}
             </div>
             <Button 
               variant="ghost" 
@@ -476,7 +738,7 @@ export const TextPreview = ({ content, filename, errors }: TextPreviewProps) =>
       )}
 
       {/* Success State */}
-      {errors.length === 0 && content && (
+      {allErrors.length === 0 && content && (
         <Card className="p-6 border-l-4 border-l-success bg-success/5">
           <div className="flex items-center gap-3">
             <CheckCircle className="w-8 h-8 text-success" />
@@ -0,0 +1,227 @@
+// Abbreviation and acronym rules (PUEBI: singkatan dan akronim)
+import type { GrammarRule, RuleContext, RuleFinding } from '@/lib/ruleRegistry';
+import { titleAbbreviations } from '@/lib/sentenceSegmenter';
+import type { Token } from '@/lib/tokenizer';
+import { capitalize, matchCase } from '@/lib/letterCase';
+
+// General abbreviations that end with a period ("dll.", "a.n.")
+const periodAbbreviations = new Set([
+  'dll', 'dsb', 'dst', 'dkk', 'hlm', 'sda', 'yth',
+  'a.n', 'u.p', 's.d', 'd.a', 'u.b',
+]);
+
+// Acronyms of initials, written in capitals ("KTP", "DPR")
+const initialAcronyms = new Set([
+  'ktp', 'dpr', 'dprd', 'mpr', 'kpk', 'kpu', 'pbb', 'tni', 'nkri', 'uud',
+  'sma', 'smp', 'smk', 'bumn', 'bumd', 'apbn', 'apbd', 'pns', 'asn', 'npwp',
+  'bpjs', 'ojk', 'dki', 'phk', 'umkm', 'lsm', 'pln', 'pdam', 'kpr', 'kkn',
+  'ugm', 'itb', 'ipb', 'ptn', 'pts', 'ppkn', 'ipa', 'ips',
+]);
+
+// Proper-name acronyms built from syllables, written with only an initial
+// capital ("Bappenas", "Polri")
+const titleAcronyms = new Set([
+  'bappenas', 'bappeda', 'bulog', 'polri', 'kowani', 'iwapi', 'basarnas',
+  'bakamla', 'pertamina', 'kominfo', 'kemendikbud', 'kemenkes', 'kemenkeu',
+  'kemenag', 'kemendagri', 'kemenlu', 'jabodetabek', 'pelni', 'damri',
+]);
+
+// Chat abbreviations and their full forms
+const chatAbbreviations: Record<string, string> = {
+  'yg': 'yang',
+  'dgn': 'dengan',
+  'dg': 'dengan',
+  'utk': 'untuk',
+  'krn': 'karena',
+  'tdk': 'tidak',
+  'sdh': 'sudah',
+  'udh': 'sudah',
+  'blm': 'belum',
+  'jg': 'juga',
+  'dlm': 'dalam',
+  'pd': 'pada',
+  'kpd': 'kepada',
+  'thd': 'terhadap',
+  'sbg': 'sebagai',
+  'spt': 'seperti',
+  'tsb': 'tersebut',
+  'dpt': 'dapat',
+  'hrs': 'harus',
+  'bs': 'bisa',
+  'bkn': 'bukan',
+  'lg': 'lagi',
+  'sy': 'saya',
+  'org': 'orang',
+  'gmn': 'bagaimana',
+  'knp': 'mengapa',
+  'tp': 'tetapi',
+  'bgt': 'sekali',
+};
+
+// Check if a word is a known abbreviation or acronym, so that spelling
+// checks leave it to these rules. Titles and address abbreviations ("Dr.",
+// "Jl.", "M.Si.") are written with their periods between the letters.
+export const isKnownAbbreviation = (word: string): boolean => {
+  const lower = word.toLowerCase();
+  return periodAbbreviations.has(lower) || initialAcronyms.has(lower) || titleAcronyms.has(lower) ||
+    titleAbbreviations.has(lower) || lower in chatAbbreviations;
+};
+
+const isAttached = (previous: Token | undefined, next: Token | undefined): boolean =>
+  !!previous && !!next && previous.end === next.start;
+
+// A period written right after (or right before) a word
+const hasAttachedPeriod = (word: Token, period: Token | undefined, after: boolean): boolean =>
+  period?.text === '.' && (after ? isAttached(word, period) : isAttached(period, word));
+
+// The dotted run of words a word is part of, without its final period: "Si"
+// in "M.Si." -> "M.Si"
+export const dottedRunAt = (text: string, tokens: Token[], index: number): string => {
+  let [first, last] = [index, index];
+  while (hasAttachedPeriod(tokens[first], tokens[first - 1], false) && tokens[first - 2]?.kind === 'word' && isAttached(tokens[first - 2], tokens[first - 1])) {
+    first -= 2;
+  }
+  while (hasAttachedPeriod(tokens[last], tokens[last + 1], true) && tokens[last + 2]?.kind === 'word' && isAttached(tokens[last + 1], tokens[last + 2])) {
+    last += 2;
+  }
+  return text.slice(tokens[first].start, tokens[last].end);
+};
+
+// Text in capitals only, such as a heading, where acronym case says nothing
+const isUpperCaseText = (tokens: Token[]): boolean => {
+  const letters = tokens.filter(token => token.kind === 'word').map(token => token.text).join('');
+  return letters.length > 0 && letters === letters.toUpperCase();
+};
+
+// General abbreviations keep their final period: "dll" -> "dll.", "a.n" -> "a.n."
+const checkAbbreviationPeriod = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== 'word' || (isAttached(tokens[index - 1], token) && /^[./]$/.test(tokens[index - 1].text))) return;
+
+    // Dotted abbreviations are split into letters and periods ("a", ".", "n");
+    // "a/n" is written for "a.n." as well
+    let last = index;
+    while (
+      /^[./]$/.test(tokens[last + 1]?.text ?? '') && isAttached(tokens[last], tokens[last + 1]) &&
+      tokens[last + 2]?.kind === 'word' && isAttached(tokens[last + 1], tokens[last + 2])
+    ) {
+      last += 2;
+    }
+
+    const written = text.slice(token.start, tokens[last].end);
+    const abbreviation = written.toLowerCase().replace(/\//g, '.');
+    const next = tokens[last + 1];
+    if (!periodAbbreviations.has(abbreviation) || (next?.text === '.' && isAttached(tokens[last], next))) return;
+    // Written in capitals it is an acronym ("SDA", sumber daya alam)
+    if (written.length > 1 && written === written.toUpperCase()) return;
+
+    const correct = `${written.replace(/\//g, '.')}.`;
+    errors.push({
+      type: 'punctuation',
+      text: written,
+      message: `Singkatan umum ditulis dengan tanda titik: "${correct}"`,
+      shortMessage: 'Titik pada singkatan',
+      replacements: [correct],
+      confidence: 0.9,
+      start: token.start,
+      end: tokens[last].end,
+    });
+  });
+
+  return errors;
+};
+
+// Acronyms of initials are written in capitals ("KTP") and proper-name
+// acronyms built from syllables with an initial capital ("Bappenas")
+const checkAcronymCase = ({ sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    const inCapitals = isUpperCaseText(sentence.tokens);
+
+    sentence.tokens.forEach(token => {
+      if (token.kind !== 'word') return;
+      const lower = token.text.toLowerCase();
+
+      let correct: string | null = null;
+      if (initialAcronyms.has(lower)) {
+        correct = token.text.toUpperCase();
+      } else if (titleAcronyms.has(lower) && !inCapitals) {
+        correct = capitalize(lower);
+      }
+      if (!correct || correct === token.text) return;
+
+      const isInitials = initialAcronyms.has(lower);
+      errors.push({
+        type: 'capitalization',
+        text: token.text,
+        message: isInitials
+          ? `Akronim dari huruf awal ditulis dengan huruf kapital semua: "${correct}"`
+          : `Akronim nama diri dari gabungan suku kata ditulis dengan huruf awal kapital: "${correct}"`,
+        shortMessage: 'Penulisan akronim',
+        replacements: [correct],
+        confidence: 0.9,
+        start: token.start,
+        end: token.end,
+      });
+    });
+  });
+
+  return errors;
+};
+
+// Chat abbreviations ("yg", "dgn") are written in full in formal text. In
+// capitals they are acronyms ("PD II"), and with a period they are part of
+// another abbreviation ("S.Pd.") unless the period ends the sentence.
+const checkChatAbbreviation = ({ sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(({ tokens }) => {
+    tokens.forEach((token, index) => {
+      const full = token.kind === 'word' ? chatAbbreviations[token.text.toLowerCase()] : undefined;
+      if (!full || token.text === token.text.toUpperCase()) return;
+      if (hasAttachedPeriod(token, tokens[index - 1], false)) return;
+      if (hasAttachedPeriod(token, tokens[index + 1], true) && index + 1 < tokens.length - 1) return;
+
+      const replacement = matchCase(token.text, full);
+      errors.push({
+        type: 'informal',
+        text: token.text,
+        message: `Singkatan tidak baku. Tulis lengkap: "${replacement}"`,
+        shortMessage: 'Singkatan tidak baku',
+        replacements: [replacement],
+        confidence: 0.9,
+        start: token.start,
+        end: token.end,
+      });
+    });
+  });
+
+  return errors;
+};
+
+export const abbreviationRules: GrammarRule[] = [
+  {
+    id: 'abbreviation-period',
+    description: 'Singkatan umum ditulis dengan tanda titik (dll., dsb., a.n., u.p.)',
+    category: 'punctuation',
+    severity: 'error',
+    check: checkAbbreviationPeriod,
+  },
+  {
+    id: 'acronym-case',
+    description: 'Akronim huruf awal ditulis kapital (KTP) dan akronim nama diri berhuruf awal kapital (Bappenas)',
+    category: 'capitalization',
+    severity: 'error',
+    check: checkAcronymCase,
+  },
+  {
+    id: 'chat-abbreviation',
+    description: 'Singkatan percakapan (yg, dgn, utk) ditulis lengkap',
+    category: 'style',
+    severity: 'warning',
+    check: checkChatAbbreviation,
+  },
+];
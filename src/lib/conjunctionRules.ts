@@ -0,0 +1,202 @@
+// Conjunction rules: correlative pairs, conjunctions that do not start a
+// sentence, and the commas that go with conjunctions
+import type { GrammarRule, RuleContext, RuleFinding } from '@/lib/ruleRegistry';
+import type { Sentence } from '@/lib/sentenceSegmenter';
+import type { Token } from '@/lib/tokenizer';
+import { capitalize } from '@/lib/letterCase';
+
+interface CorrelativePair {
+  // The first part, which decides the second ("baik" ... "maupun")
+  first: string;
+  // Second parts that are wrong after the first, and the right one
+  wrong: string[];
+  correct: string;
+  // Words right after the first part that make it another construction
+  // ("bukan hanya ..., tetapi juga" is correct)
+  exceptAfter?: string[];
+  // The first part must start a clause ("baik" is also an adjective)
+  clauseStart?: boolean;
+  // The second part must follow within the same clause
+  sameClause?: boolean;
+  confidence: number;
+}
+
+const correlativePairs: CorrelativePair[] = [
+  { first: 'baik', wrong: ['atau', 'dan'], correct: 'maupun', clauseStart: true, confidence: 0.7 },
+  { first: 'bukan', wrong: ['tetapi', 'tapi'], correct: 'melainkan', exceptAfter: ['hanya', 'saja', 'cuma'], confidence: 0.75 },
+  { first: 'tidak', wrong: ['melainkan'], correct: 'tetapi', confidence: 0.75 },
+  { first: 'antara', wrong: ['dengan'], correct: 'dan', exceptAfter: ['lain'], sameClause: true, confidence: 0.8 },
+];
+
+// Conjunctions inside a sentence that do not start one, with the sentence
+// connector to use instead where there is one
+const intraSentenceConjunctions: Record<string, string | null> = {
+  'sedangkan': null,
+  'tetapi': 'namun,',
+  'tapi': 'namun,',
+  'melainkan': null,
+  'sehingga': 'oleh karena itu,',
+};
+
+// Conjunctions preceded by a comma ("..., tetapi ...")
+const commaBeforeConjunctions = new Set(['tetapi', 'melainkan', 'sedangkan']);
+
+// Sentence connectors followed by a comma ("Oleh karena itu, ..."), longest first
+const sentenceConnectors = [
+  'sehubungan dengan itu', 'oleh karena itu', 'oleh sebab itu', 'dengan demikian',
+  'meskipun demikian', 'walaupun demikian', 'namun demikian', 'akan tetapi',
+  'selain itu', 'sementara itu', 'namun',
+].map(connector => connector.split(' '));
+
+const lower = (token: Token | undefined): string => token?.kind === 'word' ? token.text.toLowerCase() : '';
+
+const isClauseBoundary = (token: Token): boolean => token.kind === 'punctuation' && /^[,;:]$/.test(token.text);
+
+// Index of the first word of a sentence, after opening quotes and brackets
+const firstWordIndex = (sentence: Sentence): number =>
+  sentence.tokens.findIndex(token => token.kind !== 'punctuation');
+
+// "baik ... maupun", "bukan ... melainkan", "tidak ... tetapi", "antara ... dan"
+const checkCorrelatives = ({ sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    const { tokens } = sentence;
+
+    tokens.forEach((token, index) => {
+      const pair = correlativePairs.find(candidate => candidate.first === lower(token));
+      if (!pair || pair.exceptAfter?.includes(lower(tokens[index + 1]))) return;
+      if (pair.clauseStart && (tokens[index + 1]?.kind !== 'word' ||
+        (index !== firstWordIndex(sentence) && !isClauseBoundary(tokens[index - 1])))) return;
+
+      // The second part is the next conjunction of the pair; the right one ends the search
+      for (let i = index + 1; i < tokens.length; i++) {
+        const word = lower(tokens[i]);
+        if (pair.sameClause && isClauseBoundary(tokens[i])) return;
+        if (word === pair.correct || word === pair.first) return;
+        if (!pair.wrong.includes(word)) continue;
+
+        const second = tokens[i];
+        errors.push({
+          type: 'grammar',
+          text: second.text,
+          message: `Pasangan "${pair.first}" adalah "${pair.correct}": "${pair.first} ... ${pair.correct}"`,
+          shortMessage: 'Konjungsi berpasangan',
+          replacements: [pair.correct],
+          confidence: pair.confidence,
+          start: second.start,
+          end: second.end,
+        });
+        return;
+      }
+    });
+  });
+
+  return errors;
+};
+
+// "Tetapi ..." and "Sedangkan ..." join clauses inside a sentence and do not
+// start one
+const checkSentenceInitialConjunction = ({ sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    const first = sentence.tokens[firstWordIndex(sentence)];
+    const word = lower(first);
+    if (!(word in intraSentenceConjunctions)) return;
+
+    const connector = intraSentenceConjunctions[word];
+    errors.push({
+      type: 'grammar',
+      text: first.text,
+      message: connector
+        ? `Konjungsi "${word}" tidak mengawali kalimat. Gabungkan dengan kalimat sebelumnya atau gunakan "${capitalize(connector)}"`
+        : `Konjungsi "${word}" tidak mengawali kalimat. Gabungkan dengan kalimat sebelumnya`,
+      shortMessage: 'Konjungsi di awal kalimat',
+      replacements: connector ? [capitalize(connector)] : [],
+      confidence: 0.8,
+      start: first.start,
+      end: first.end,
+    });
+  });
+
+  return errors;
+};
+
+// A comma before "tetapi", "melainkan" and "sedangkan", and after sentence
+// connectors such as "Oleh karena itu" and "Namun"
+const checkConjunctionComma = ({ text, sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    const { tokens } = sentence;
+    const firstIndex = firstWordIndex(sentence);
+
+    // "..., tetapi"
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1];
+      if (!commaBeforeConjunctions.has(lower(token)) || index === firstIndex || !previous || previous.kind !== 'word') return;
+      // "Akan tetapi" is a sentence connector
+      if (lower(previous) === 'akan') return;
+
+      errors.push({
+        type: 'punctuation',
+        text: text.slice(previous.end, token.end),
+        message: `Gunakan koma sebelum "${token.text}": ", ${token.text}"`,
+        shortMessage: 'Koma sebelum konjungsi',
+        replacements: [`, ${token.text}`],
+        confidence: 0.85,
+        start: previous.end,
+        end: token.end,
+      });
+    });
+
+    // "Oleh karena itu, ..."
+    if (firstIndex === -1) return;
+    const connector = sentenceConnectors.find(words =>
+      words.every((word, offset) => lower(tokens[firstIndex + offset]) === word));
+    if (!connector) return;
+
+    const last = tokens[firstIndex + connector.length - 1];
+    const next = tokens[firstIndex + connector.length];
+    if (!next || next.kind !== 'word') return;
+
+    const written = text.slice(tokens[firstIndex].start, last.end);
+    errors.push({
+      type: 'punctuation',
+      text: written,
+      message: `Gunakan koma setelah ungkapan penghubung antarkalimat: "${written},"`,
+      shortMessage: 'Koma setelah penghubung',
+      replacements: [`${written},`],
+      confidence: 0.85,
+      start: tokens[firstIndex].start,
+      end: last.end,
+    });
+  });
+
+  return errors;
+};
+
+export const conjunctionRules: GrammarRule[] = [
+  {
+    id: 'correlative-conjunction',
+    description: 'Konjungsi berpasangan (baik ... maupun, bukan ... melainkan, tidak ... tetapi, antara ... dan)',
+    category: 'grammar',
+    severity: 'warning',
+    check: checkCorrelatives,
+  },
+  {
+    id: 'sentence-initial-conjunction',
+    description: 'Konjungsi intrakalimat (sedangkan, tetapi) di awal kalimat',
+    category: 'grammar',
+    severity: 'warning',
+    check: checkSentenceInitialConjunction,
+  },
+  {
+    id: 'conjunction-comma',
+    description: 'Koma sebelum "tetapi", "melainkan", "sedangkan" dan setelah "Oleh karena itu", "Namun"',
+    category: 'punctuation',
+    severity: 'error',
+    check: checkConjunctionComma,
+  },
+];
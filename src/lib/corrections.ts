@@ -0,0 +1,56 @@
+// Apply replacements from grammar errors to produce corrected text
+import type { GrammarError } from '@/lib/grammarChecker';
+import { capitalize } from '@/lib/letterCase';
+
+export interface Fix {
+  error: GrammarError;
+  replacement: string;
+}
+
+// Carry the letter case of the written text over to the replacement:
+// "GAK" -> "TIDAK", "Gak" -> "Tidak". A replacement is never lowercased,
+// since capitals may be the correction itself ("jakarta" -> "Jakarta"), and
+// a replacement that only changes letter case is kept as it is
+// ("BAPPENAS" -> "Bappenas").
+export const preserveCase = (original: string, replacement: string): string => {
+  if (replacement.toLowerCase() === original.toLowerCase()) return replacement;
+  const letters = original.replace(/[^\p{L}]/gu, '');
+  if (letters.length > 1 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  if (/^\p{Lu}/u.test(original)) {
+    return capitalize(replacement);
+  }
+  return replacement;
+};
+
+// The fix that takes an error's best replacement, or null if it has none
+export const bestFix = (error: GrammarError): Fix | null =>
+  error.replacements.length > 0 && error.end > error.start
+    ? { error, replacement: error.replacements[0] }
+    : null;
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }): boolean =>
+  a.start < b.end && b.start < a.end;
+
+// Apply fixes to the text and return the corrected text. Fixes that overlap
+// an earlier fix are skipped. The corrected text is checked again rather than
+// shifting the old errors, since a fix may create new ones.
+export const applyFixes = (text: string, fixes: Fix[]): string => {
+  const applied: Fix[] = [];
+  [...fixes]
+    .sort((a, b) => a.error.start - b.error.start)
+    .forEach(fix => {
+      if (fix.error.end <= fix.error.start) return;
+      if (applied.some(previous => overlaps(previous.error, fix.error))) return;
+      applied.push(fix);
+    });
+
+  let corrected = '';
+  let lastIndex = 0;
+  applied.forEach(({ error, replacement }) => {
+    corrected += text.slice(lastIndex, error.start) + preserveCase(text.slice(error.start, error.end), replacement);
+    lastIndex = error.end;
+  });
+  return corrected + text.slice(lastIndex);
+};
@@ -0,0 +1,83 @@
+// Personal and team word lists for names, product names and technical terms
+export type DictionaryName = 'personal' | 'team';
+
+const storageKeys: Record<DictionaryName, string> = {
+  personal: 'resik-bahasa:kamus-pribadi',
+  team: 'resik-bahasa:kamus-tim',
+};
+
+// Lowercased words of both dictionaries, rebuilt whenever one changes
+let customWords: Set<string> | null = null;
+
+const readDictionary = (name: DictionaryName): string[] => {
+  try {
+    const stored = localStorage.getItem(storageKeys[name]);
+    const words = stored ? JSON.parse(stored) : [];
+    return Array.isArray(words) ? words.filter(word => typeof word === 'string') : [];
+  } catch (error) {
+    console.error(`Error reading ${name} dictionary:`, error);
+    return [];
+  }
+};
+
+const writeDictionary = (name: DictionaryName, words: string[]): void => {
+  try {
+    localStorage.setItem(storageKeys[name], JSON.stringify(words));
+  } catch (error) {
+    console.error(`Error saving ${name} dictionary:`, error);
+  }
+  customWords = null;
+};
+
+// Words of one dictionary, in the order they were added
+export const getDictionaryWords = (name: DictionaryName): string[] => readDictionary(name);
+
+// Check if a word is in the personal or team dictionary (case-insensitive).
+// Each word of a multi-word entry ("Resik Bahasa") counts on its own.
+export const isCustomWord = (word: string): boolean => {
+  if (!customWords) {
+    customWords = new Set([...readDictionary('personal'), ...readDictionary('team')]
+      .flatMap(entry => entry.toLowerCase().split(/\s+/)));
+  }
+  return customWords.has(word.toLowerCase());
+};
+
+// Add a word as written; returns false if the dictionary already has it
+export const addCustomWord = (word: string, name: DictionaryName = 'personal'): boolean => {
+  const entry = word.trim();
+  const words = readDictionary(name);
+  if (!entry || words.some(existing => existing.toLowerCase() === entry.toLowerCase())) return false;
+
+  writeDictionary(name, [...words, entry]);
+  return true;
+};
+
+// Remove a word from a dictionary (case-insensitive)
+export const removeCustomWord = (word: string, name: DictionaryName = 'personal'): void => {
+  writeDictionary(name, readDictionary(name).filter(existing => existing.toLowerCase() !== word.toLowerCase()));
+};
+
+// Parse a plain word list: one word or term per line, blank lines and lines
+// starting with "#" ignored
+export const parseWordList = (text: string): string[] =>
+  text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+// Merge a plain word list into a dictionary; returns the number of new words
+export const importWordList = (text: string, name: DictionaryName = 'team'): number => {
+  const words = readDictionary(name);
+  const known = new Set(words.map(word => word.toLowerCase()));
+  const added = parseWordList(text).filter(word => {
+    if (known.has(word.toLowerCase())) return false;
+    known.add(word.toLowerCase());
+    return true;
+  });
+
+  if (added.length > 0) writeDictionary(name, [...words, ...added]);
+  return added.length;
+};
+
+// Export a dictionary as a plain word list, one word per line
+export const exportWordList = (name: DictionaryName): string =>
+  readDictionary(name).join('\n') + '\n';
@@ -0,0 +1,269 @@
+// Date and time writing rules (PUEBI: nama bulan, tanggal, dan pukul)
+import type { GrammarRule, RuleContext, RuleFinding } from '@/lib/ruleRegistry';
+import type { Token } from '@/lib/tokenizer';
+import { capitalize } from '@/lib/letterCase';
+
+// Month names in calendar order, so the index + 1 is the month number
+export const monthNames = [
+  'januari', 'februari', 'maret', 'april', 'mei', 'juni',
+  'juli', 'agustus', 'september', 'oktober', 'november', 'desember',
+];
+
+const timeZones = ['WIB', 'WITA', 'WIT'];
+
+// Units after "jam" that make it a duration ("1 jam 20 menit"), not a time
+const durationWords = new Set(['menit', 'detik']);
+
+interface DateMention {
+  start: number;
+  end: number;
+  day: number;
+  month: number;
+  year: string;
+  // "19 Oktober 2026" or "19-10-2026" (separator "-", "/" or ".")
+  format: 'long' | 'numeric';
+  separator?: string;
+}
+
+const padTwo = (value: number | string): string => String(value).padStart(2, '0');
+
+const isAttached = (previous: Token | undefined, next: Token | undefined): boolean =>
+  !!previous && !!next && previous.end === next.start;
+
+const isValidDate = (day: number, month: number): boolean => day >= 1 && day <= 31 && month >= 1 && month <= 12;
+
+// Find dates written with the month name or with numbers only
+const findDates = (tokens: Token[]): DateMention[] => {
+  const dates: DateMention[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== 'number') return;
+
+    // 19.10.2026 is a single number token
+    const dotted = token.text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    if (dotted) {
+      const [day, month] = [Number(dotted[1]), Number(dotted[2])];
+      if (isValidDate(day, month)) {
+        dates.push({ start: token.start, end: token.end, day, month, year: dotted[3], format: 'numeric', separator: '.' });
+      }
+      return;
+    }
+    if (!/^\d{1,2}$/.test(token.text)) return;
+
+    // 19 Oktober 2026
+    const [monthToken, yearToken] = [tokens[index + 1], tokens[index + 2]];
+    const monthIndex = monthToken?.kind === 'word' ? monthNames.indexOf(monthToken.text.toLowerCase()) : -1;
+    if (monthIndex !== -1 && yearToken?.kind === 'number' && /^\d{4}$/.test(yearToken.text)) {
+      const day = Number(token.text);
+      if (isValidDate(day, monthIndex + 1)) {
+        dates.push({ start: token.start, end: yearToken.end, day, month: monthIndex + 1, year: yearToken.text, format: 'long' });
+      }
+      return;
+    }
+
+    // 19-10-2026, 19/10/2026
+    const [separator, monthNumber, secondSeparator, year] = tokens.slice(index + 1, index + 5);
+    if (
+      separator && /^[-/]$/.test(separator.text) && secondSeparator?.text === separator.text &&
+      monthNumber?.kind === 'number' && /^\d{1,2}$/.test(monthNumber.text) &&
+      year?.kind === 'number' && /^\d{4}$/.test(year.text) &&
+      [token, separator, monthNumber, secondSeparator, year].every((part, i, parts) => i === 0 || isAttached(parts[i - 1], part))
+    ) {
+      const [day, month] = [Number(token.text), Number(monthNumber.text)];
+      if (isValidDate(day, month)) {
+        dates.push({ start: token.start, end: year.end, day, month, year: year.text, format: 'numeric', separator: separator.text });
+      }
+    }
+  });
+
+  return dates;
+};
+
+// Month names are capitalized ("19 Oktober 2026")
+const checkMonthCapitalization = ({ tokens }: RuleContext): RuleFinding[] => tokens
+  .filter(token => token.kind === 'word' && monthNames.includes(token.text))
+  .map(token => ({
+    type: 'capitalization',
+    text: token.text,
+    message: `Nama bulan diawali huruf kapital: "${capitalize(token.text.toLowerCase())}"`,
+    shortMessage: 'Huruf kapital nama bulan',
+    replacements: [capitalize(token.text.toLowerCase())],
+    confidence: 0.9,
+    start: token.start,
+    end: token.end,
+  }));
+
+// One document uses one date format. The format used most often wins, and
+// the written-out month on a tie.
+const checkDateConsistency = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const dates = findDates(tokens);
+  const longDates = dates.filter(date => date.format === 'long');
+  const numericDates = dates.filter(date => date.format === 'numeric');
+  if (longDates.length === 0 || numericDates.length === 0) return [];
+
+  const preferLong = longDates.length >= numericDates.length;
+  const separator = numericDates[0].separator ?? '-';
+
+  return (preferLong ? numericDates : longDates).map(date => {
+    const correct = preferLong
+      ? `${date.day} ${capitalize(monthNames[date.month - 1])} ${date.year}`
+      : `${padTwo(date.day)}${separator}${padTwo(date.month)}${separator}${date.year}`;
+    return {
+      type: 'format',
+      text: text.slice(date.start, date.end),
+      message: `Format tanggal tidak seragam dalam dokumen. Tulis seperti tanggal lainnya: "${correct}"`,
+      shortMessage: 'Format tanggal bercampur',
+      replacements: [correct],
+      confidence: 0.7,
+      start: date.start,
+      end: date.end,
+    };
+  });
+};
+
+// Times are written "pukul 09.00": with a period, not a colon, and with
+// "pukul" rather than "jam"
+const checkTimeFormat = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  // Read the time starting at a token: "9", "9.30", "09:00". Returns the
+  // hour, the minutes if written, and the index of the last token.
+  const readTime = (index: number): { hour: string; minutes?: string; last: number } | null => {
+    const token = tokens[index];
+    if (token?.kind !== 'number') return null;
+
+    const dotted = token.text.match(/^(\d{1,2})\.(\d{2})$/);
+    if (dotted) return { hour: dotted[1], minutes: dotted[2], last: index };
+    if (!/^\d{1,2}$/.test(token.text)) return null;
+
+    const [colon, minutes] = [tokens[index + 1], tokens[index + 2]];
+    if (colon?.text === ':' && isAttached(token, colon) && isAttached(colon, minutes) && /^\d{2}$/.test(minutes.text)) {
+      return { hour: token.text, minutes: minutes.text, last: index + 2 };
+    }
+    return { hour: token.text, last: index };
+  };
+
+  const isValidTime = (hour: string, minutes = '00') => Number(hour) <= 24 && Number(minutes) < 60;
+
+  let skipUntil = -1;
+  tokens.forEach((token, index) => {
+    if (index <= skipUntil) return;
+    const word = token.kind === 'word' ? token.text.toLowerCase() : '';
+
+    // "jam 9", "jam 09:00" -> "pukul 09.00", unless it is a duration ("1 jam 20 menit")
+    if (word === 'jam' || word === 'pukul') {
+      const time = readTime(index + 1);
+      if (!time || !isValidTime(time.hour, time.minutes)) return;
+      const isDuration = durationWords.has(tokens[time.last + 1]?.text.toLowerCase() ?? '');
+      if (isDuration || (word === 'pukul' && time.last === index + 1 && time.minutes !== undefined)) return;
+
+      const pukul = word === 'jam' ? (/^J/.test(token.text) ? 'Pukul' : 'pukul') : token.text;
+      const correct = `${pukul} ${padTwo(time.hour)}.${time.minutes ?? '00'}`;
+      errors.push({
+        type: 'format',
+        text: text.slice(token.start, tokens[time.last].end),
+        message: word === 'jam'
+          ? `Keterangan waktu ditulis dengan "pukul" dan titik di antara jam dan menit: "${correct}"`
+          : `Waktu ditulis dengan jam dan menit yang dipisahkan titik: "${correct}"`,
+        shortMessage: 'Penulisan waktu',
+        replacements: [correct],
+        // "pukul 9" is understandable, only the minutes are missing
+        ...(word === 'pukul' && time.minutes === undefined ? { severity: 'hint' as const, confidence: 0.6 } : { confidence: 0.8 }),
+        start: token.start,
+        end: tokens[time.last].end,
+      });
+      skipUntil = time.last;
+      return;
+    }
+
+    // "09:00" -> "09.00"
+    const time = readTime(index);
+    if (time && time.minutes !== undefined && time.last === index + 2 && isValidTime(time.hour, time.minutes)) {
+      const correct = `${time.hour}.${time.minutes}`;
+      errors.push({
+        type: 'format',
+        text: text.slice(token.start, tokens[time.last].end),
+        message: `Jam dan menit dipisahkan dengan titik, bukan titik dua: "${correct}"`,
+        shortMessage: 'Penulisan waktu',
+        replacements: [correct],
+        confidence: 0.85,
+        start: token.start,
+        end: tokens[time.last].end,
+      });
+      skipUntil = time.last;
+    }
+  });
+
+  return errors;
+};
+
+// Time zones after a time are written WIB, WITA, and WIT, separated by a space
+const checkTimeZone = ({ tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  tokens.forEach((token, index) => {
+    // "09.00WIB" -> "09.00 WIB"
+    const attached = token.kind === 'number' ? token.text.match(/^(\d{1,2}\.\d{2})(wib|wita|wit)$/i) : null;
+    if (attached) {
+      const correct = `${attached[1]} ${attached[2].toUpperCase()}`;
+      errors.push({
+        type: 'format',
+        text: token.text,
+        message: `Zona waktu ditulis terpisah dengan huruf kapital: "${correct}"`,
+        shortMessage: 'Zona waktu',
+        replacements: [correct],
+        confidence: 0.9,
+        start: token.start,
+        end: token.end,
+      });
+      return;
+    }
+
+    // "09.00 wib" -> "09.00 WIB"; "wit" alone is also a word ("pohon")
+    const zone = token.text.toUpperCase();
+    if (token.kind !== 'word' || !timeZones.includes(zone) || token.text === zone || tokens[index - 1]?.kind !== 'number') return;
+    errors.push({
+      type: 'format',
+      text: token.text,
+      message: `Zona waktu ditulis dengan huruf kapital: "${zone}"`,
+      shortMessage: 'Zona waktu',
+      replacements: [zone],
+      confidence: 0.9,
+      start: token.start,
+      end: token.end,
+    });
+  });
+
+  return errors;
+};
+
+export const dateTimeRules: GrammarRule[] = [
+  {
+    id: 'month-capitalization',
+    description: 'Nama bulan diawali huruf kapital',
+    category: 'capitalization',
+    severity: 'error',
+    check: checkMonthCapitalization,
+  },
+  {
+    id: 'date-format-consistency',
+    description: 'Format tanggal seragam dalam satu dokumen (19 Oktober 2026 atau 19-10-2026)',
+    category: 'format',
+    severity: 'warning',
+    check: checkDateConsistency,
+  },
+  {
+    id: 'time-format',
+    description: 'Penulisan waktu dengan "pukul" dan titik (pukul 09.00)',
+    category: 'format',
+    severity: 'warning',
+    check: checkTimeFormat,
+  },
+  {
+    id: 'time-zone',
+    description: 'Penulisan zona waktu WIB, WITA, dan WIT',
+    category: 'format',
+    severity: 'error',
+    check: checkTimeZone,
+  },
+];
@@ -0,0 +1,90 @@
+// Typo-aware edit costs for ranking spelling suggestions
+const qwertyRows = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+// Horizontal offset of each keyboard row
+const rowOffsets = [0, 0.25, 0.75];
+
+// Cheaper edits for the slips people actually make
+const ADJACENT_KEY_COST = 0.5;
+const TRANSPOSITION_COST = 0.5;
+const DOUBLED_LETTER_COST = 0.6;
+
+const keyPositions: Record<string, { row: number; column: number }> = {};
+qwertyRows.forEach((keys, row) => {
+  [...keys].forEach((key, index) => {
+    keyPositions[key] = { row, column: index + rowOffsets[row] };
+  });
+});
+
+// Check if two letters sit next to each other on a QWERTY keyboard
+export const isAdjacentKey = (a: string, b: string): boolean => {
+  const first = keyPositions[a];
+  const second = keyPositions[b];
+  if (!first || !second || a === b) return false;
+
+  return Math.abs(first.row - second.row) <= 1 && Math.abs(first.column - second.column) <= 1;
+};
+
+interface EditCosts {
+  substitution: (a: string, b: string) => number;
+  insertion: (word: string, index: number) => number;
+  deletion: (word: string, index: number) => number;
+  transposition: number;
+}
+
+const unitCosts: EditCosts = {
+  substitution: () => 1,
+  insertion: () => 1,
+  deletion: () => 1,
+  transposition: 1,
+};
+
+// A letter typed twice or typed once instead of twice costs less than an
+// arbitrary insertion or deletion
+const isDoubled = (word: string, index: number) =>
+  (index > 0 && word[index] === word[index - 1]) || (index < word.length - 1 && word[index] === word[index + 1]);
+
+const typoCosts: EditCosts = {
+  substitution: (a, b) => (isAdjacentKey(a, b) ? ADJACENT_KEY_COST : 1),
+  insertion: (word, index) => (isDoubled(word, index) ? DOUBLED_LETTER_COST : 1),
+  deletion: (word, index) => (isDoubled(word, index) ? DOUBLED_LETTER_COST : 1),
+  transposition: TRANSPOSITION_COST,
+};
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+const editDistance = (typed: string, target: string, costs: EditCosts): number => {
+  const rows = typed.length + 1;
+  const columns = target.length + 1;
+  const matrix: number[][] = Array.from({ length: rows }, () => new Array(columns).fill(0));
+
+  for (let i = 1; i < rows; i++) matrix[i][0] = matrix[i - 1][0] + costs.deletion(typed, i - 1);
+  for (let j = 1; j < columns; j++) matrix[0][j] = matrix[0][j - 1] + costs.insertion(target, j - 1);
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      const typedChar = typed[i - 1];
+      const targetChar = target[j - 1];
+
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j - 1] + (typedChar === targetChar ? 0 : costs.substitution(typedChar, targetChar)),
+        matrix[i - 1][j] + costs.deletion(typed, i - 1),
+        matrix[i][j - 1] + costs.insertion(target, j - 1),
+      );
+
+      // "sayta" -> "satya"
+      if (i > 1 && j > 1 && typedChar === target[j - 2] && typed[i - 2] === targetChar && typedChar !== targetChar) {
+        matrix[i][j] = Math.min(matrix[i][j], matrix[i - 2][j - 2] + costs.transposition);
+      }
+    }
+  }
+
+  return matrix[typed.length][target.length];
+};
+
+// Edit distance counting an adjacent transposition as a single edit
+export const damerauDistance = (typed: string, target: string): number =>
+  editDistance(typed, target, unitCosts);
+
+// Weighted edit distance that favours keyboard slips, swapped letters and
+// doubled letters over unrelated edits
+export const typoDistance = (typed: string, target: string): number =>
+  editDistance(typed, target, typoCosts);
@@ -0,0 +1,146 @@
+// Approximate word lookup using a SymSpell-style deletion dictionary
+export interface FuzzyIndex {
+  words: string[];
+  // Sorted keys packing a delete hash (high bits) and a word id (low bits)
+  entries: Float64Array;
+  idFactor: number;
+  maxDistance: number;
+  prefixLength: number;
+}
+
+export interface FuzzyCandidate {
+  word: string;
+  distance: number;
+}
+
+// Only the first characters of each word are indexed (as in SymSpell), which
+// keeps the number of deletes per word small without missing any candidate
+const DEFAULT_PREFIX_LENGTH = 7;
+const DEFAULT_MAX_DISTANCE = 2;
+
+// Rows reused by every distance calculation
+let previousRow = new Uint16Array(64);
+let currentRow = new Uint16Array(64);
+
+// Calculate Levenshtein distance between two strings
+export const levenshteinDistance = (str1: string, str2: string): number => {
+  const length = str2.length;
+  if (previousRow.length <= length) {
+    previousRow = new Uint16Array(length + 1);
+    currentRow = new Uint16Array(length + 1);
+  }
+
+  for (let j = 0; j <= length; j++) previousRow[j] = j;
+
+  for (let i = 1; i <= str1.length; i++) {
+    currentRow[0] = i;
+    const char = str1.charCodeAt(i - 1);
+    for (let j = 1; j <= length; j++) {
+      const cost = char === str2.charCodeAt(j - 1) ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j - 1] + cost, // substitution
+        currentRow[j - 1] + 1,     // insertion
+        previousRow[j] + 1         // deletion
+      );
+    }
+    const swap = previousRow;
+    previousRow = currentRow;
+    currentRow = swap;
+  }
+
+  return previousRow[length];
+};
+
+// 32-bit FNV-1a hash
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// All strings reachable from the word by deleting up to maxDistance characters
+const generateDeletes = (word: string, maxDistance: number): Set<string> => {
+  const deletes = new Set([word]);
+  let current = [word];
+
+  for (let distance = 0; distance < maxDistance; distance++) {
+    const next: string[] = [];
+    current.forEach(value => {
+      for (let i = 0; i < value.length; i++) {
+        const deleted = value.slice(0, i) + value.slice(i + 1);
+        if (deleted && !deletes.has(deleted)) {
+          deletes.add(deleted);
+          next.push(deleted);
+        }
+      }
+    });
+    current = next;
+  }
+
+  return deletes;
+};
+
+// Build the deletion dictionary once for the whole word list
+export const buildFuzzyIndex = (
+  source: Iterable<string>,
+  maxDistance = DEFAULT_MAX_DISTANCE,
+  prefixLength = DEFAULT_PREFIX_LENGTH,
+): FuzzyIndex => {
+  const words = [...source];
+  const idFactor = 2 ** Math.max(1, Math.ceil(Math.log2(words.length + 1)));
+  const keys: number[] = [];
+
+  words.forEach((word, id) => {
+    generateDeletes(word.slice(0, prefixLength), maxDistance).forEach(deleted => {
+      keys.push(hashString(deleted) * idFactor + id);
+    });
+  });
+
+  const entries = Float64Array.from(keys).sort();
+  return { words, entries, idFactor, maxDistance, prefixLength };
+};
+
+// Index of the first entry whose key is at least the given key
+const lowerBound = (entries: Float64Array, key: number): number => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (entries[middle] < key) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+// Find indexed words within maxDistance of the word, sorted by distance and
+// then by their order in the source list
+export const findFuzzyCandidates = (index: FuzzyIndex, word: string, maxDistance: number): FuzzyCandidate[] => {
+  if (index.words.length === 0) return [];
+
+  const distance = Math.min(maxDistance, index.maxDistance);
+  const candidateIds = new Set<number>();
+
+  generateDeletes(word.slice(0, index.prefixLength), distance).forEach(deleted => {
+    const base = hashString(deleted) * index.idFactor;
+    for (let i = lowerBound(index.entries, base); i < index.entries.length && index.entries[i] < base + index.idFactor; i++) {
+      candidateIds.add(index.entries[i] - base);
+    }
+  });
+
+  const candidates: (FuzzyCandidate & { id: number })[] = [];
+  candidateIds.forEach(id => {
+    const candidate = index.words[id];
+    if (Math.abs(candidate.length - word.length) > distance) return;
+    const candidateDistance = levenshteinDistance(word, candidate);
+    if (candidateDistance <= distance) {
+      candidates.push({ word: candidate, distance: candidateDistance, id });
+    }
+  });
+
+  return candidates
+    .sort((a, b) => a.distance - b.distance || a.id - b.id)
+    .map(({ id, ...candidate }) => candidate);
+};
@@ -1,13 +1,49 @@
 // Basic grammar and language checking utilities for Indonesian
+import { analyzeAffixes, analyzeReduplication, analyzeWord, attachNasalPrefix, findAffixFormationError, stemWord } from '@/lib/morphology';
+import { buildPhraseLexicon, findPhrases, type PhraseLexicon } from '@/lib/phraseLexicon';
+import { buildFuzzyIndex, findFuzzyCandidates, type FuzzyIndex } from '@/lib/fuzzyIndex';
+import { damerauDistance, typoDistance } from '@/lib/editModel';
+import { buildPhoneticIndex, findPhoneticMatches, type PhoneticIndex } from '@/lib/phonetic';
+import { isSeparatedBySpace, tokenize, type Token } from '@/lib/tokenizer';
+import { splitSentences } from '@/lib/sentenceSegmenter';
+import { tagTokens } from '@/lib/posTagger';
+import { isCustomWord } from '@/lib/customDictionary';
+import { capitalize, matchCase } from '@/lib/letterCase';
+import { checkRuleExample, compilePatternRule, loadPatternRules } from '@/lib/patternRules';
+import { numberRules } from '@/lib/numberRules';
+import { dateTimeRules } from '@/lib/dateTimeRules';
+import { abbreviationRules, dottedRunAt, isKnownAbbreviation } from '@/lib/abbreviationRules';
+import { pleonasmRules } from '@/lib/pleonasmRules';
+import { conjunctionRules } from '@/lib/conjunctionRules';
+import { createSentenceStructureRules } from '@/lib/sentenceStructureRules';
+import { registerRule, runRules, type GrammarRule, type RuleContext, type RuleFinding, type RuleSeverity } from '@/lib/ruleRegistry';
+
 export interface GrammarError {
-  type: 'grammar' | 'spelling' | 'misspelling' | 'informal' | 'punctuation' | 'capitalization' | 'format';
+  type: 'grammar' | 'spelling' | 'misspelling' | 'informal' | 'affixation' | 'punctuation' | 'capitalization' | 'number' | 'format';
   text: string;
-  suggestion: string;
+  // Full explanation of the error and a short label for lists and tooltips
+  message: string;
+  shortMessage: string;
+  // Text to put in place of start..end, best candidate first (empty when
+  // the error cannot be fixed by replacing text)
+  replacements: string[];
   start: number;
   end: number;
+  // ID of the rule that reported the error
+  ruleId: string;
+  severity: RuleSeverity;
+  // How sure the rule is that this is an error, from 0 to 1
+  confidence: number;
+}
+
+export interface CheckOptions {
+  // Skip errors whose confidence (0-1) falls below this value
+  minConfidence?: number;
+  // IDs of rules that should not run
+  disabledRules?: string[];
 }
 
-interface DocumentMargins {
+export interface DocumentMargins {
   top: number;
   bottom: number;
   left: number;
@@ -16,27 +52,82 @@ interface DocumentMargins {
 
 // Load KBBI database
 let kbbiWords: Set<string> = new Set();
+let kbbiPhrases: PhraseLexicon = buildPhraseLexicon([]);
+let kbbiIndex: FuzzyIndex = buildFuzzyIndex([]);
+let kbbiPhonetic: PhoneticIndex = buildPhoneticIndex([]);
+let wordFrequencies: Map<string, number> = new Map();
 
-// Load KBBI words from file
-const loadKBBIWords = async (): Promise<Set<string>> => {
+// Load KBBI entries from file
+const loadKBBIEntries = async (): Promise<string[]> => {
   try {
     const response = await fetch('/kbbi_baku.txt');
     const text = await response.text();
-    const words = text.split('\n')
+    return text.split('\n')
       .map(line => line.trim().toLowerCase())
-      .filter(word => word && !word.startsWith('(') && !word.includes('-') && word.length > 1);
-    return new Set(words);
+      .filter(line => line);
   } catch (error) {
     console.error('Error loading KBBI database:', error);
-    return new Set();
+    return [];
+  }
+};
+
+// Load word frequency ranks from file (most frequent word first, counted in
+// OpenSubtitles; see README) and turn each rank into a score between 0 and 1
+const loadWordFrequencies = async (): Promise<Map<string, number>> => {
+  try {
+    const response = await fetch('/frekuensi_kata.txt');
+    const text = await response.text();
+    const words = text.split('\n')
+      .map(line => line.trim().toLowerCase())
+      .filter(line => line);
+    return new Map(words.map((word, rank) => [word, 1 - Math.log(rank + 1) / Math.log(words.length + 1)]));
+  } catch (error) {
+    console.error('Error loading word frequencies:', error);
+    return new Map();
   }
 };
 
-// Initialize KBBI words
-loadKBBIWords().then(words => {
-  kbbiWords = words;
+// Keep hyphenated entries (anak-anak, sayur-mayur) but drop idioms with
+// optional parts and bound affixes (-kah, ber-)
+const toWordSet = (entries: string[]): Set<string> =>
+  new Set(entries.filter(word => !word.startsWith('(') && !word.startsWith('-') && !word.endsWith('-') && word.length > 1));
+
+// Initialize KBBI words, multi-word expressions and the suggestion indexes.
+// Callers outside the checker wait for this before using analyze() and stem().
+export const kbbiReady = loadKBBIEntries().then(entries => {
+  kbbiWords = toWordSet(entries);
+  kbbiPhrases = buildPhraseLexicon(entries);
+  kbbiIndex = buildFuzzyIndex(kbbiWords);
+  kbbiPhonetic = buildPhoneticIndex(kbbiWords);
+});
+
+// Root of a word for lemma patterns, the word itself if it cannot be analyzed
+const lemmatize = (word: string): string => analyzeWord(word, kbbiWords)?.root ?? word;
+
+const analyzeLexiconAffixes = (word: string) => analyzeAffixes(word, kbbiWords);
+
+// Initialize team-authored pattern rules once KBBI roots can be looked up.
+// They run before the KBBI lookup so that their more specific advice wins
+// for words such as "online". A rule that does not flag its own incorrect
+// example (or flags the correct one) is skipped.
+kbbiReady.then(() => loadPatternRules('/pola_aturan.json')).then(rules => {
+  rules.forEach(rule => {
+    if (checkRuleExample(rule, lemmatize)) {
+      registerRule(compilePatternRule(rule, lemmatize), { before: 'kbbi-spelling' });
+    } else {
+      console.error(`Pattern rule ${rule.id} does not match its example`);
+    }
+  });
+});
+
+// Initialize word frequencies
+loadWordFrequencies().then(frequencies => {
+  wordFrequencies = frequencies;
 });
 
+// Frequency score of a word, 0 for words outside the frequency list
+const getWordFrequency = (word: string): number => wordFrequencies.get(word.toLowerCase()) || 0;
+
 // Common informal words to formal words mapping
 const informalToFormal: Record<string, string> = {
   'gak': 'tidak',
@@ -58,40 +149,71 @@ const informalToFormal: Record<string, string> = {
   'sayah': 'saya',
 };
 
-// Common suffixes that make valid Indonesian words
-const validSuffixes = ['ku', 'mu', 'nya', 'lah', 'kah', 'tah', 'an', 'kan', 'i', 'in'];
+// Root and affixes of a word
+export interface WordAnalysis {
+  word: string;
+  // The word with its affixes removed, or the word itself if no root is found
+  root: string;
+  prefixes: string[];
+  suffixes: string[];
+  // Whether the root is listed in KBBI
+  inKbbi: boolean;
+}
 
-// Check if a word might be a valid Indonesian word with suffix
-const isValidWithSuffix = (word: string): boolean => {
-  if (kbbiWords.size === 0) return false;
-  
+// Analyze a word into its KBBI root and affixes, stopping at the first root
+// in the lexicon: "mengatakan" -> meN- + kata + -kan, "bersekolah" -> ber- +
+// sekolah, "berlari-lari" -> ber- + lari. Reduplication takes its prefixes from the first half and its
+// suffixes from the second. Every word is reported as not in KBBI until
+// kbbiReady resolves.
+export const analyze = (word: string): WordAnalysis => {
   const wordLower = word.toLowerCase();
-  
-  // Check if the word itself is in KBBI
-  if (kbbiWords.has(wordLower)) return true;
-  
-  // Check if removing common suffixes results in a valid word
-  for (const suffix of validSuffixes) {
-    if (wordLower.endsWith(suffix) && wordLower.length > suffix.length + 2) {
-      const rootWord = wordLower.slice(0, -suffix.length);
-      if (kbbiWords.has(rootWord)) {
-        return true;
-      }
+
+  const reduplication = wordLower.includes('-') ? analyzeReduplication(wordLower, kbbiWords) : null;
+  if (reduplication) {
+    const [left, right] = wordLower.split('-').map(part => stemWord(part, kbbiWords));
+    // Halves with one root share it ("berlari-lari"); other listed entries
+    // are their own root ("sayur-mayur")
+    let root = reduplication.base;
+    if (left && left.root === right?.root) {
+      root = left.root;
+    } else if (reduplication.type !== 'lexical') {
+      root = left?.root ?? reduplication.base;
     }
+    return {
+      word: wordLower,
+      root,
+      prefixes: left?.prefixes.length ? left.prefixes : right?.prefixes ?? [],
+      suffixes: right?.suffixes ?? [],
+      inKbbi: true,
+    };
   }
-  
-  return false;
+
+  const analysis = stemWord(wordLower, kbbiWords);
+  return analysis
+    ? { ...analysis, inKbbi: true }
+    : { word: wordLower, root: wordLower, prefixes: [], suffixes: [], inKbbi: false };
+};
+
+// Root of a word for glossary matching and search indexing ("pendidikan" -> "didik")
+export const stem = (word: string): string => analyze(word).root;
+
+// Check if a word is a valid Indonesian word, either as listed in KBBI,
+// as an affixed form of a KBBI root, or as a reduplication of one
+const isValidWord = (word: string): boolean => {
+  if (kbbiWords.size === 0) return false;
+
+  if (word.includes('-')) {
+    const parts = word.split('-');
+    // Numbers and proper names joined with a hyphen (ke-20, se-Indonesia) are not reduplication
+    if (parts.some(part => /\d/.test(part) || /^[A-Z]/.test(part))) return true;
+    return analyzeReduplication(word, kbbiWords) !== null;
+  }
+
+  return analyze(word).inKbbi;
 };
 
 // Common spelling mistakes (misspelling/typos)
 const commonMistakes: Record<string, string> = {
-  'di makan': 'dimakan',
-  'di baca': 'dibaca',
-  'di tulis': 'ditulis',
-  'di lihat': 'dilihat',
-  'ke mana': 'kemana',
-  'ke sana': 'kesana',
-  'ke mari': 'kemari',
   'apotik': 'apotek',
   'sistim': 'sistem',
   'analisa': 'analisis',
@@ -102,262 +224,603 @@ const commonMistakes: Record<string, string> = {
   'standart': 'standar',
 };
 
+// Place, direction and time words that follow the prepositions "di"/"ke"
+// (written separately even when a meN- verb exists, e.g. "mendalam", "menepi")
+const placeWords = new Set([
+  'mana', 'sana', 'sini', 'situ', 'atas', 'bawah', 'dalam', 'luar', 'depan',
+  'belakang', 'samping', 'sebelah', 'antara', 'tengah', 'sekitar', 'sekeliling',
+  'seberang', 'balik', 'tepi', 'pinggir', 'ujung', 'sudut', 'pojok', 'puncak',
+  'hulu', 'hilir', 'hadapan', 'muka', 'utara', 'selatan', 'timur', 'barat',
+  'rumah', 'sekolah', 'kantor', 'kamar', 'kelas', 'pasar', 'jalan', 'kota',
+  'desa', 'kampung', 'tanah', 'laut', 'darat', 'udara', 'sawah', 'kebun',
+  'gunung', 'sungai', 'pantai', 'hutan', 'pulau', 'langit', 'bumi', 'dunia',
+  'dasar', 'awal', 'akhir', 'masa', 'saat', 'waktu', 'zaman', 'pagi', 'siang',
+  'sore', 'malam',
+]);
+
+// Numerals after "di"/"ke" stay separate ("ke lima kota"), ordinals aside
+const numberWords = new Set([
+  'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan',
+  'sembilan', 'sepuluh', 'sebelas', 'seratus', 'seribu',
+]);
+
+// Words written with ke- as one word; any other "ke" before a word is the
+// preposition ("ke pelabuhan", "ke meja")
+const joinedKeWords = new Set([
+  'kemari', 'kemarin', 'kemudian', 'kepada', 'ketua', 'kekasih', 'kehendak',
+]);
+
+// Words before "di" that make the next word a verb ("harus di baca", "tidak di jual").
+// "sudah", "masih" and "sedang" also come before places ("masih di kantor").
+const passiveMarkers = new Set([
+  'tidak', 'tak', 'jangan', 'segera', 'harus', 'wajib', 'perlu', 'dapat', 'bisa',
+  'boleh', 'mesti', 'akan', 'telah', 'pernah',
+]);
+
 // Proper nouns that should be capitalized
 const properNouns = [
   'indonesia', 'jakarta', 'surabaya', 'bandung', 'medan', 'semarang',
   'senin', 'selasa', 'rabu', 'kamis', 'jumat', 'sabtu', 'minggu',
-  'januari', 'februari', 'maret', 'april', 'mei', 'juni',
-  'juli', 'agustus', 'september', 'oktober', 'november', 'desember',
   'allah', 'tuhan', 'islam', 'kristen', 'hindu', 'buddha',
 ];
 
-// Calculate Levenshtein distance between two strings
-const levenshteinDistance = (str1: string, str2: string): number => {
-  const matrix = [];
-  
-  for (let i = 0; i <= str2.length; i++) {
-    matrix[i] = [i];
-  }
-  
-  for (let j = 0; j <= str1.length; j++) {
-    matrix[0][j] = j;
-  }
-  
-  for (let i = 1; i <= str2.length; i++) {
-    for (let j = 1; j <= str1.length; j++) {
-      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1, // substitution
-          matrix[i][j - 1] + 1,     // insertion
-          matrix[i - 1][j] + 1      // deletion
-        );
-      }
-    }
-  }
-  
-  return matrix[str2.length][str1.length];
-};
+// Proper nouns that are also common nouns ("dua minggu", "medan perang")
+const ambiguousProperNouns = new Set(['minggu', 'medan', 'tuhan']);
+
+interface SuggestionMatch {
+  word: string;
+  distance: number;
+  cost: number;
+  frequency: number;
+}
+
+// Words that sound the same (fikir/pikir, liat/lihat) cost a fraction of an
+// edit per letter changed. A rare sound-alike costs up to RARE_PHONETIC_COST
+// more, so that a common word one edit away comes first ("psar" -> "pasar",
+// not "sar").
+const PHONETIC_MATCH_COST = 0.3;
+const RARE_PHONETIC_COST = 0.7;
+
+const phoneticCost = (distance: number, frequency: number): number =>
+  PHONETIC_MATCH_COST * distance + RARE_PHONETIC_COST * (1 - frequency);
 
-// Find closest match in KBBI using fuzzy matching (more conservative)
-const findClosestMatch = (word: string): string[] => {
+// Find closest match in KBBI using fuzzy and phonetic matching (more conservative)
+const findClosestMatch = (word: string): SuggestionMatch[] => {
   if (kbbiWords.size === 0) return [];
   
   const wordLower = word.toLowerCase();
-  const matches: { word: string; distance: number }[] = [];
-  
-  // Only check words with similar length to avoid performance issues
-  for (const kbbiWord of kbbiWords) {
-    // Skip if length difference is too large
-    if (Math.abs(kbbiWord.length - wordLower.length) > 2) continue;
-    
-    const distance = levenshteinDistance(wordLower, kbbiWord);
-    
-    // More conservative: only distance 1 for short words, max 2 for longer words
-    // and only if the words share some common characters
-    const maxDistance = wordLower.length <= 4 ? 1 : 2;
-    
-    if (distance <= maxDistance && distance > 0) {
+
+  // More conservative: only distance 1 for short words, max 2 for longer words.
+  // A swapped pair of letters counts as one edit. Words that sound the same
+  // are suggested whatever their distance.
+  const maxDistance = wordLower.length <= 4 ? 1 : 2;
+  const phoneticMatches = new Set(findPhoneticMatches(kbbiPhonetic, wordLower));
+  const candidates = new Set([
+    ...findFuzzyCandidates(kbbiIndex, wordLower, 2).map(candidate => candidate.word),
+    ...phoneticMatches,
+  ]);
+
+  const matches = [...candidates]
+    .map(kbbiWord => {
+      const distance = damerauDistance(wordLower, kbbiWord);
+      const frequency = getWordFrequency(kbbiWord);
+      const typoCost = typoDistance(wordLower, kbbiWord);
+      return {
+        word: kbbiWord,
+        distance,
+        cost: phoneticMatches.has(kbbiWord) ? Math.min(typoCost, phoneticCost(distance, frequency)) : typoCost,
+        frequency,
+      };
+    })
+    .filter(({ word: kbbiWord, distance }) => {
+      if (distance === 0) return false;
+      if (distance > maxDistance && !phoneticMatches.has(kbbiWord)) return false;
       // Additional check: ensure some character similarity
       const commonChars = [...wordLower].filter(char => kbbiWord.includes(char)).length;
       const similarityRatio = commonChars / Math.max(wordLower.length, kbbiWord.length);
-      
-      if (similarityRatio >= 0.5) { // At least 50% character similarity
-        matches.push({ word: kbbiWord, distance });
-      }
-    }
-  }
+      return similarityRatio >= 0.5; // At least 50% character similarity
+    });
   
-  // Return top 2 closest matches, sorted by distance
+  // Return top 2 most likely matches: common words that sound the same, then
+  // keyboard slips, swapped and doubled letters, then by plain edit count and
+  // common words first
   return matches
-    .sort((a, b) => a.distance - b.distance)
-    .slice(0, 2)
-    .map(match => match.word);
+    .sort((a, b) => a.cost - b.cost || a.distance - b.distance || b.frequency - a.frequency)
+    .slice(0, 2);
 };
 
-const checkText = (text: string): GrammarError[] => {
-  const errors: GrammarError[] = [];
-  const words = text.split(/(\s+|[.,!?;:])/);
-  let position = 0;
-
-  // Check each word/token
-  words.forEach((word, index) => {
-    const cleanWord = word.toLowerCase().trim();
-    const originalWord = word.trim();
-    
-    if (!cleanWord || /^[.,!?;:\s]+$/.test(word)) {
-      position += word.length;
-      return;
-    }
+// Confidence that a word is misspelled, given its suggestions: a cheap edit
+// towards a common word is almost certainly a typo, while two equally close
+// candidates or a capitalized word inside a sentence (often a name) are less
+// certain
+const misspellingConfidence = (matches: SuggestionMatch[], isCapitalizedInSentence: boolean): number => {
+  const [best, second] = matches;
+  const editConfidence = Math.max(0, 1 - best.cost / 4);
+  const frequencyFactor = 0.85 + 0.15 * best.frequency;
+  const ambiguityFactor = second && second.cost === best.cost ? 0.9 : 1;
+  const nameFactor = isCapitalizedInSentence ? 0.6 : 1;
+  return editConfidence * frequencyFactor * ambiguityFactor * nameFactor;
+};
+
+// Unknown words without any suggestion are often names or technical terms
+const UNKNOWN_WORD_CONFIDENCE = 0.4;
+
+// Misspellings at least this certain are reported as errors, the rest as warnings
+const LIKELY_TYPO_CONFIDENCE = 0.55;
+
+const wordTokens = (tokens: Token[]): Token[] => tokens.filter(token => token.kind === 'word');
+
+// Informal words (kata tidak baku) with their formal forms
+const informalWordRule: GrammarRule = {
+  id: 'informal-word',
+  description: 'Kata tidak baku yang memiliki padanan baku',
+  category: 'spelling',
+  severity: 'warning',
+  check: ({ tokens }) => wordTokens(tokens)
+    .filter(token => informalToFormal[token.text.toLowerCase()])
+    .map(token => ({
+      type: 'informal',
+      text: token.text,
+      message: `Gunakan kata baku "${informalToFormal[token.text.toLowerCase()]}" sebagai gantinya`,
+      shortMessage: 'Kata tidak baku',
+      replacements: [matchCase(token.text, informalToFormal[token.text.toLowerCase()])],
+      confidence: 0.95,
+      start: token.start,
+      end: token.end,
+    })),
+};
+
+// Wrongly formed affixed words (merubah, mempengaruhi)
+const affixFormationRule: GrammarRule = {
+  id: 'affix-formation',
+  description: 'Bentuk kata berimbuhan yang tidak sesuai kaidah pembentukan kata',
+  category: 'word-formation',
+  severity: 'error',
+  check: ({ tokens }) => {
+    const errors: RuleFinding[] = [];
+    if (kbbiWords.size === 0) return errors;
+
+    wordTokens(tokens).forEach(token => {
+      const correctForm = token.text.length > 1 ? findAffixFormationError(token.text.toLowerCase(), kbbiWords) : null;
+      if (correctForm) {
+        errors.push({
+          type: 'affixation',
+          text: token.text,
+          message: `Bentuk kata berimbuhan tidak baku. Gunakan "${correctForm}" sesuai kaidah pembentukan kata`,
+          shortMessage: 'Imbuhan tidak baku',
+          replacements: [matchCase(token.text, correctForm)],
+          confidence: 0.9,
+          start: token.start,
+          end: token.end,
+        });
+      }
+    });
+
+    return errors;
+  },
+};
+
+// Compounds written as one word (kerjasama, tanggungjawab)
+const joinedCompoundRule: GrammarRule = {
+  id: 'joined-compound',
+  description: 'Gabungan kata yang seharusnya ditulis terpisah',
+  category: 'word-formation',
+  severity: 'error',
+  check: ({ tokens, sentences }) => {
+    const errors: RuleFinding[] = [];
+    const sentenceStarts = new Set(sentences.map(sentence => sentence.start));
+
+    wordTokens(tokens).forEach(token => {
+      // Capitalized words inside a sentence are names ("Parepare")
+      if (/^\p{Lu}/u.test(token.text) && !sentenceStarts.has(token.start)) return;
+      // "diatas" and "kemana" are prepositions, left to the preposition rule
+      const preposition = token.text.match(/^(?:di|ke)(\p{L}+)$/iu);
+      if (preposition && placeWords.has(preposition[1].toLowerCase())) return;
+
+      const separatedCompound = token.text.length > 1 ? findJoinedCompound(token.text) : null;
+      if (separatedCompound) {
+        errors.push({
+          type: 'misspelling',
+          text: token.text,
+          message: `Gabungan kata ditulis terpisah: "${separatedCompound}"`,
+          shortMessage: 'Gabungan kata',
+          replacements: [separatedCompound],
+          confidence: 0.85,
+          start: token.start,
+          end: token.end,
+        });
+      }
+    });
+
+    return errors;
+  },
+};
+
+// Words that are neither in KBBI nor an affixed form of a KBBI root, with
+// the closest KBBI words as suggestions
+const kbbiSpellingRule: GrammarRule = {
+  id: 'kbbi-spelling',
+  description: 'Kata yang tidak ditemukan dalam KBBI',
+  category: 'spelling',
+  severity: 'error',
+  check: ({ text, tokens, sentences }) => {
+    const errors: RuleFinding[] = [];
+    if (kbbiWords.size === 0) return errors;
+
+    const sentenceStarts = new Set(sentences.map(sentence => sentence.start));
+
+    // Compounds and idioms are checked as units, not word by word
+    const phraseMatches = findPhrases(text, tokens, kbbiPhrases);
+    const isInPhrase = (start: number) =>
+      phraseMatches.some(match => start >= match.start && start < match.end);
+
+    tokens.forEach((token, index) => {
+      if (token.kind !== 'word') return;
+      const originalWord = token.text;
+      const cleanWord = originalWord.toLowerCase();
+      if (
+        cleanWord.length <= 1 ||
+        // Words with digits (ke-20, COVID-19) are left to the number rules
+        /\d/.test(originalWord) ||
+        isInPhrase(token.start) ||
+        isCustomWord(originalWord) ||
+        isKnownAbbreviation(dottedRunAt(text, tokens, index)) ||
+        // Short words in capitals are acronyms or Roman numerals (BPOM, II)
+        /^\p{Lu}{2,5}$/u.test(originalWord) ||
+        isValidWord(originalWord) ||
+        properNouns.includes(cleanWord)
+      ) return;
+
+      // Try to find closest matches using fuzzy matching
+      const closestMatches = findClosestMatch(cleanWord);
+      const isCapitalizedInSentence = /^\p{Lu}/u.test(originalWord) && !sentenceStarts.has(token.start);
+      const confidence = closestMatches.length > 0
+        ? misspellingConfidence(closestMatches, isCapitalizedInSentence)
+        : UNKNOWN_WORD_CONFIDENCE;
 
-    // Skip if it's a number, punctuation, or proper noun starting with capital
-    if (!/^[\d\-.,!?;:()]+$/.test(originalWord) && cleanWord.length > 1) {
-      
-      // 1. Check informal words first (kata tidak baku) - highest priority
-      if (informalToFormal[cleanWord]) {
+      if (closestMatches.length > 0) {
+        // It's likely a typo/misspelling
+        const replacements = closestMatches.map(match => matchCase(originalWord, match.word));
+        const message = replacements.length === 1
+          ? `Kemungkinan salah ketik. Maksud Anda "${replacements[0]}"?`
+          : `Kemungkinan salah ketik. Maksud Anda "${replacements[0]}" atau "${replacements[1]}"?`;
+
+        errors.push({
+          type: 'misspelling',
+          text: originalWord,
+          message,
+          shortMessage: 'Salah ketik',
+          replacements,
+          // A likely typo is an error, a distant guess only a warning
+          severity: confidence >= LIKELY_TYPO_CONFIDENCE ? 'error' : 'warning',
+          confidence,
+          start: token.start,
+          end: token.end,
+        });
+      } else if (!/^[A-Z]/.test(originalWord)) {
+        // Word not found and no close match - only flag if it's not a proper noun or technical term
         errors.push({
-          type: 'informal',
+          type: 'spelling',
           text: originalWord,
-          suggestion: `Gunakan kata baku "${informalToFormal[cleanWord]}" sebagai gantinya`,
-          start: position,
-          end: position + word.length,
+          message: `Kata "${originalWord}" tidak ditemukan dalam KBBI. Periksa ejaan kata ini.`,
+          shortMessage: 'Kata tidak dikenal',
+          replacements: [],
+          severity: 'warning',
+          confidence,
+          start: token.start,
+          end: token.end,
         });
       }
-      // 2. Check if word is valid (in KBBI or valid with suffix)
-      else if (kbbiWords.size > 0 && !isValidWithSuffix(cleanWord) && !properNouns.includes(cleanWord)) {
-        // 3. Try to find closest matches using fuzzy matching
-        const closestMatches = findClosestMatch(cleanWord);
-        
-        if (closestMatches.length > 0) {
-          // It's likely a typo/misspelling
-          const suggestion = closestMatches.length === 1 
-            ? `Kemungkinan salah ketik. Maksud Anda "${closestMatches[0]}"?`
-            : `Kemungkinan salah ketik. Maksud Anda "${closestMatches[0]}" atau "${closestMatches[1]}"?`;
-            
+    });
+
+    return errors;
+  },
+};
+
+// Common spelling mistakes, also inside longer words (resikonya)
+const commonMisspellingRule: GrammarRule = {
+  id: 'common-misspelling',
+  description: 'Kesalahan ejaan yang sering terjadi (apotik, resiko, analisa)',
+  category: 'spelling',
+  severity: 'error',
+  check: ({ tokens }) => {
+    const errors: RuleFinding[] = [];
+
+    wordTokens(tokens).forEach(token => {
+      const cleanWord = token.text.toLowerCase();
+      Object.entries(commonMistakes).forEach(([mistake, correct]) => {
+        const mistakeIndex = cleanWord.indexOf(mistake);
+        if (mistakeIndex !== -1) {
+          const written = token.text.slice(mistakeIndex, mistakeIndex + mistake.length);
           errors.push({
             type: 'misspelling',
-            text: originalWord,
-            suggestion: suggestion,
-            start: position,
-            end: position + word.length,
+            text: written,
+            message: `Perbaiki menjadi "${correct}"`,
+            shortMessage: 'Ejaan tidak baku',
+            replacements: [matchCase(written, correct)],
+            confidence: 0.95,
+            start: token.start + mistakeIndex,
+            end: token.start + mistakeIndex + mistake.length,
           });
-        } else {
-          // Word not found and no close match - only flag if it's not a proper noun or technical term
-          if (!/^[A-Z]/.test(originalWord) && !/\d/.test(originalWord)) {
-            errors.push({
-              type: 'spelling',
-              text: originalWord,
-              suggestion: `Kata "${originalWord}" tidak ditemukan dalam KBBI. Periksa ejaan kata ini.`,
-              start: position,
-              end: position + word.length,
-            });
-          }
         }
+      });
+    });
+
+    return errors;
+  },
+};
+
+// Proper nouns written in lowercase
+const properNounCapitalizationRule: GrammarRule = {
+  id: 'proper-noun-capitalization',
+  description: 'Nama diri, hari, dan agama diawali huruf kapital',
+  category: 'capitalization',
+  severity: 'error',
+  check: ({ tokens }) => wordTokens(tokens)
+    .filter(token => properNouns.includes(token.text))
+    .map(token => ({
+      type: 'capitalization',
+      text: token.text,
+      message: `Huruf kapital diperlukan: "${capitalize(token.text)}"`,
+      shortMessage: 'Huruf kapital',
+      replacements: [capitalize(token.text)],
+      // "minggu" is also the common noun "week"
+      ...(ambiguousProperNouns.has(token.text) ? { severity: 'hint' as const, confidence: 0.3 } : { confidence: 0.9 }),
+      start: token.start,
+      end: token.end,
+    })),
+};
+
+// Misspelled or incomplete idioms
+const idiomFormRule: GrammarRule = {
+  id: 'idiom-form',
+  description: 'Ungkapan atau peribahasa yang ditulis tidak sesuai KBBI',
+  category: 'spelling',
+  severity: 'warning',
+  check: ({ text, tokens }) => findPhrases(text, tokens, kbbiPhrases)
+    .filter(match => !match.exact)
+    .map(match => ({
+      type: 'misspelling',
+      text: match.text || text.slice(match.start, match.end),
+      message: `Ungkapan ini ditulis "${match.phrase}"`,
+      shortMessage: 'Ungkapan',
+      replacements: [matchCase(text.slice(match.start, match.end), match.phrase)],
+      confidence: 0.6,
+      start: match.start,
+      end: match.end,
+    })),
+};
+
+// Find the separated form of a compound written as one word ("kerjasama" ->
+// "kerja sama"). Compounds are only written together when they take both a
+// prefix and a suffix ("pertanggungjawaban").
+const findJoinedCompound = (word: string): string | null => {
+  if (kbbiWords.size === 0 || word.includes('-')) return null;
+
+  const analysis = analyzeWord(word, kbbiWords);
+  if (!analysis || !analysis.root.includes(' ')) return null;
+
+  const hasPrefix = analysis.prefixes.length > 0;
+  const hasDerivationalSuffix = analysis.suffixes.some(suffix => ['kan', 'an', 'i'].includes(suffix));
+  if (hasPrefix && hasDerivationalSuffix) return null;
+
+  const lastPart = analysis.root.split(' ').pop() || '';
+  const splitAt = word.toLowerCase().lastIndexOf(lastPart);
+  if (splitAt <= 0) return null;
+
+  return `${word.slice(0, splitAt)} ${word.slice(splitAt)}`;
+};
+
+// Check if the root takes the passive prefix di- (dimakan, ditulis). A meN-
+// form alone is not enough, since nouns form intransitive verbs too
+// ("menyeluruh", "mendaerah"), so the ter- form must exist as well.
+const isPassiveVerbRoot = (root: string): boolean =>
+  kbbiWords.has(`di${root}`) ||
+  (kbbiWords.has(attachNasalPrefix('me', root)) && kbbiWords.has(`ter${root}`));
+
+// Check if the words around "di" read it as the passive prefix: a modal or
+// negation before it ("harus di kirim") or an agent after it ("di baca oleh")
+const hasPassiveContext = (tokens: Token[], index: number): boolean => {
+  const previous = tokens[index - 1];
+  const afterRoot = tokens[index + 2];
+  return (previous?.kind === 'word' && passiveMarkers.has(previous.text.toLowerCase())) ||
+    afterRoot?.text.toLowerCase() === 'oleh';
+};
+
+// Check if the word is a verb root with -kan/-i ("di berikan", "di lukai");
+// place nouns do not take these suffixes
+const isSuffixedVerb = (word: string): boolean => {
+  const match = word.match(/^(.+?)(kan|i)$/);
+  return !!match && kbbiWords.has(match[1]) && kbbiWords.has(attachNasalPrefix('me', match[1]) + match[2]);
+};
+
+// Check if the root is used as a verb in any meN-/di- form, including with -kan/-i
+const hasVerbForm = (root: string): boolean => {
+  const activeVerb = attachNasalPrefix('me', root);
+  return kbbiWords.has(`di${root}`) ||
+    kbbiWords.has(activeVerb) ||
+    kbbiWords.has(`${activeVerb}kan`) ||
+    kbbiWords.has(`${activeVerb}i`) ||
+    kbbiWords.has(`ter${root}`);
+};
+
+// Decide between the prepositions "di"/"ke" (written apart: "di rumah", "ke mana")
+// and the prefixes di-/ke- (written together: "dimakan", "kemari")
+const checkPrepositionUsage = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+  if (kbbiWords.size === 0) return errors;
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== 'word') return;
+
+    // Prefix written apart from a verb root: "di baca" -> "dibaca"
+    const next = tokens[index + 1];
+    if (
+      /^([Dd]i|[Kk]e)$/.test(token.text) &&
+      next && next.kind === 'word' && /^[a-z]+$/.test(next.text) &&
+      isSeparatedBySpace(text, token, next)
+    ) {
+      const particle = token.text.toLowerCase();
+      const root = next.text;
+      const joined = particle + root;
+      // Locative nouns also have verb forms ("atap" -> "mengatap"), so "di"
+      // is only joined with a listed word or a verb in a passive context
+      const shouldJoin = !placeWords.has(root) && !numberWords.has(root) && (particle === 'di'
+        ? kbbiWords.has(joined) || isSuffixedVerb(root) || (hasPassiveContext(tokens, index) && isPassiveVerbRoot(root))
+        : joinedKeWords.has(joined));
+
+      if (shouldJoin) {
+        const correct = matchCase(token.text, joined);
+        errors.push({
+          type: 'misspelling',
+          text: text.slice(token.start, next.end),
+          message: particle === 'di'
+            ? `Awalan "di-" ditulis serangkai dengan kata dasarnya: "${correct}"`
+            : `Kata "${correct}" ditulis serangkai`,
+          shortMessage: 'Ditulis serangkai',
+          replacements: [correct],
+          confidence: 0.8,
+          start: token.start,
+          end: next.end,
+        });
       }
     }
 
-    // Check common spelling mistakes (separate check for specific patterns)
-    const lowerText = text.toLowerCase();
-    Object.entries(commonMistakes).forEach(([mistake, correct]) => {
-      const mistakeIndex = lowerText.indexOf(mistake.toLowerCase(), position);
-      if (mistakeIndex !== -1 && mistakeIndex < position + word.length) {
+    // Preposition written together with a place or direction: "dirumah" -> "di rumah"
+    const joinedMatch = token.text.match(/^([Dd]i|[Kk]e)([a-z]+)$/);
+    if (joinedMatch) {
+      const particle = joinedMatch[1].toLowerCase();
+      const root = joinedMatch[2];
+      if (kbbiWords.has(token.text.toLowerCase()) || !kbbiWords.has(root)) return;
+
+      const shouldSeparate = placeWords.has(root) || (particle === 'di' && !hasVerbForm(root));
+
+      if (shouldSeparate) {
+        const correct = `${joinedMatch[1]} ${root}`;
         errors.push({
           type: 'misspelling',
-          text: mistake,
-          suggestion: `Perbaiki menjadi "${correct}"`,
-          start: mistakeIndex,
-          end: mistakeIndex + mistake.length,
+          text: token.text,
+          message: `Kata depan "${particle}" ditulis terpisah dari kata yang mengikutinya: "${correct}"`,
+          shortMessage: 'Kata depan terpisah',
+          replacements: [correct],
+          confidence: placeWords.has(root) ? 0.9 : 0.7,
+          start: token.start,
+          end: token.end,
         });
       }
-    });
+    }
+  });
+
+  return errors;
+};
+
+// Marks that must not be doubled or preceded by a space
+const isClauseMark = (token: Token): boolean =>
+  token.kind === 'punctuation' && /^[.!?,:;]$/.test(token.text);
 
-    // Check capitalization for proper nouns
-    if (properNouns.includes(cleanWord) && originalWord === cleanWord) {
+// Doubled marks ("!!", ",,"); an ellipsis is a single mark
+const checkDoublePunctuation = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (!isClauseMark(token) || (previous && previous.end === token.start && previous.text === token.text)) return;
+
+    let runEnd = index;
+    while (tokens[runEnd + 1] && tokens[runEnd + 1].text === token.text && tokens[runEnd + 1].start === tokens[runEnd].end) {
+      runEnd++;
+    }
+    if (runEnd > index) {
       errors.push({
-        type: 'capitalization',
-        text: originalWord,
-        suggestion: `Huruf kapital diperlukan: "${originalWord.charAt(0).toUpperCase() + originalWord.slice(1)}"`,
-        start: position,
-        end: position + word.length,
+        type: 'punctuation',
+        text: text.slice(token.start, tokens[runEnd].end),
+        message: `Gunakan satu tanda baca "${token.text}" saja`,
+        shortMessage: 'Tanda baca ganda',
+        replacements: [token.text],
+        start: token.start,
+        end: tokens[runEnd].end,
       });
     }
-
-    position += word.length;
   });
 
-  // Check punctuation errors
-  const punctuationErrors = checkPunctuation(text);
-  errors.push(...punctuationErrors);
+  return errors;
+};
 
-  // Check sentence capitalization
-  const capitalizationErrors = checkSentenceCapitalization(text);
-  errors.push(...capitalizationErrors);
+const checkMultipleSpaces = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
 
-  // Remove duplicates and sort by position
-  const uniqueErrors = errors.filter((error, index, self) => 
-    index === self.findIndex(e => e.start === error.start && e.end === error.end)
-  );
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (!previous) return;
 
-  return uniqueErrors.sort((a, b) => a.start - b.start);
+    // Line and paragraph breaks are not doubled spaces
+    const gap = text.slice(previous.end, token.start);
+    if (/\s{2,}/.test(gap) && !gap.includes('\n')) {
+      errors.push({
+        type: 'punctuation',
+        text: gap,
+        message: 'Gunakan satu spasi saja',
+        shortMessage: 'Spasi ganda',
+        replacements: [' '],
+        start: previous.end,
+        end: token.start,
+      });
+    }
+  });
+
+  return errors;
 };
 
-const checkPunctuation = (text: string): GrammarError[] => {
-  const errors: GrammarError[] = [];
-  
-  // Check for double punctuation
-  const doublePunctuationRegex = /([.!?,:;])\1+/g;
-  let match;
-  while ((match = doublePunctuationRegex.exec(text)) !== null) {
-    errors.push({
-      type: 'punctuation',
-      text: match[0],
-      suggestion: `Gunakan satu tanda baca "${match[1]}" saja`,
-      start: match.index,
-      end: match.index + match[0].length,
-    });
-  }
+const checkSpaceBeforePunctuation = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
 
-  // Check for multiple spaces
-  const multipleSpacesRegex = /\s{2,}/g;
-  while ((match = multipleSpacesRegex.exec(text)) !== null) {
-    errors.push({
-      type: 'punctuation',
-      text: match[0],
-      suggestion: 'Gunakan satu spasi saja',
-      start: match.index,
-      end: match.index + match[0].length,
-    });
-  }
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (!previous || !isClauseMark(token) || previous.end === token.start) return;
 
-  // Check for space before punctuation
-  const spaceBeforePunctuationRegex = /\s+([.!?,:;])/g;
-  while ((match = spaceBeforePunctuationRegex.exec(text)) !== null) {
     errors.push({
       type: 'punctuation',
-      text: match[0],
-      suggestion: `Hapus spasi sebelum "${match[1]}"`,
-      start: match.index,
-      end: match.index + match[0].length,
+      text: text.slice(previous.end, token.end),
+      message: `Hapus spasi sebelum "${token.text}"`,
+      shortMessage: 'Spasi sebelum tanda baca',
+      replacements: [token.text],
+      start: previous.end,
+      end: token.end,
     });
-  }
+  });
 
   return errors;
 };
 
-const checkSentenceCapitalization = (text: string): GrammarError[] => {
-  const errors: GrammarError[] = [];
-  
-  // Split into sentences
-  const sentences = text.split(/[.!?]+/);
-  let position = 0;
+const checkSentenceCapitalization = ({ sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
   
-  sentences.forEach((sentence, index) => {
-    const trimmed = sentence.trim();
-    if (trimmed.length > 0) {
-      const firstChar = trimmed.charAt(0);
-      if (firstChar !== firstChar.toUpperCase() && /[a-zA-Z]/.test(firstChar)) {
-        const sentenceStart = text.indexOf(trimmed, position);
-        if (sentenceStart !== -1) {
-          errors.push({
-            type: 'capitalization',
-            text: firstChar,
-            suggestion: `Gunakan huruf kapital di awal kalimat: "${firstChar.toUpperCase()}"`,
-            start: sentenceStart,
-            end: sentenceStart + 1,
-          });
-        }
-      }
+  sentences.forEach(sentence => {
+    // Opening quotes, brackets and list dashes do not start the sentence themselves
+    const firstToken = sentence.tokens.find(token => token.kind !== 'punctuation');
+    if (!firstToken || firstToken.kind !== 'word') return;
+
+    const firstChar = firstToken.text.charAt(0);
+    if (firstChar !== firstChar.toUpperCase()) {
+      errors.push({
+        type: 'capitalization',
+        text: firstChar,
+        message: `Gunakan huruf kapital di awal kalimat: "${firstChar.toUpperCase()}"`,
+        shortMessage: 'Huruf kapital awal kalimat',
+        replacements: [firstChar.toUpperCase()],
+        confidence: 0.9,
+        start: firstToken.start,
+        end: firstToken.start + 1,
+      });
     }
-    position += sentence.length + 1; // +1 for the punctuation
   });
 
   return errors;
 };
 
 // Check document margins
-export const checkMargins = (margins?: DocumentMargins): GrammarError[] => {
-  const errors: GrammarError[] = [];
+export const checkMargins = (margins?: DocumentMargins): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
   
   if (!margins) return errors;
   
@@ -368,7 +831,9 @@ export const checkMargins = (margins?: DocumentMargins): GrammarError[] => {
     errors.push({
       type: 'format',
       text: 'Margin Atas',
-      suggestion: `Margin atas harus 3.0 cm (saat ini ${margins.top} cm). Atur margin atas ke 3.0 cm.`,
+      message: `Margin atas harus 3.0 cm (saat ini ${margins.top} cm). Atur margin atas ke 3.0 cm.`,
+      shortMessage: 'Margin atas',
+      replacements: [],
       start: 0,
       end: 0,
     });
@@ -378,7 +843,9 @@ export const checkMargins = (margins?: DocumentMargins): GrammarError[] => {
     errors.push({
       type: 'format',
       text: 'Margin Bawah',
-      suggestion: `Margin bawah harus 2.5 cm (saat ini ${margins.bottom} cm). Atur margin bawah ke 2.5 cm.`,
+      message: `Margin bawah harus 2.5 cm (saat ini ${margins.bottom} cm). Atur margin bawah ke 2.5 cm.`,
+      shortMessage: 'Margin bawah',
+      replacements: [],
       start: 0,
       end: 0,
     });
@@ -388,7 +855,9 @@ export const checkMargins = (margins?: DocumentMargins): GrammarError[] => {
     errors.push({
       type: 'format',
       text: 'Margin Kiri',
-      suggestion: `Margin kiri harus 2.5 cm (saat ini ${margins.left} cm). Atur margin kiri ke 2.5 cm.`,
+      message: `Margin kiri harus 2.5 cm (saat ini ${margins.left} cm). Atur margin kiri ke 2.5 cm.`,
+      shortMessage: 'Margin kiri',
+      replacements: [],
       start: 0,
       end: 0,
     });
@@ -398,7 +867,9 @@ export const checkMargins = (margins?: DocumentMargins): GrammarError[] => {
     errors.push({
       type: 'format',
       text: 'Margin Kanan',
-      suggestion: `Margin kanan harus 2.5 cm (saat ini ${margins.right} cm). Atur margin kanan ke 2.5 cm.`,
+      message: `Margin kanan harus 2.5 cm (saat ini ${margins.right} cm). Atur margin kanan ke 2.5 cm.`,
+      shortMessage: 'Margin kanan',
+      replacements: [],
       start: 0,
       end: 0,
     });
@@ -407,9 +878,82 @@ export const checkMargins = (margins?: DocumentMargins): GrammarError[] => {
   return errors;
 };
 
-export const checkGrammar = (text: string, margins?: DocumentMargins): GrammarError[] => {
-  const textErrors = checkText(text);
-  const marginErrors = checkMargins(margins);
-  
-  return [...textErrors, ...marginErrors];
-};
\ No newline at end of file
+// Built-in rules, in the order they run
+const builtInRules: GrammarRule[] = [
+  informalWordRule,
+  affixFormationRule,
+  joinedCompoundRule,
+  // Number, date, time and abbreviation rules come before the KBBI lookup,
+  // which would treat "ke-dua" or "dgn" as a typo
+  ...numberRules,
+  ...dateTimeRules,
+  ...abbreviationRules,
+  kbbiSpellingRule,
+  commonMisspellingRule,
+  properNounCapitalizationRule,
+  idiomFormRule,
+  {
+    id: 'preposition-di-ke',
+    description: 'Penulisan "di"/"ke" sebagai kata depan (terpisah) atau awalan (serangkai)',
+    category: 'word-formation',
+    severity: 'error',
+    check: checkPrepositionUsage,
+  },
+  {
+    id: 'double-punctuation',
+    description: 'Tanda baca yang ditulis ganda',
+    category: 'punctuation',
+    severity: 'error',
+    check: checkDoublePunctuation,
+  },
+  {
+    id: 'multiple-spaces',
+    description: 'Spasi ganda di antara kata',
+    category: 'punctuation',
+    severity: 'hint',
+    check: checkMultipleSpaces,
+  },
+  {
+    id: 'space-before-punctuation',
+    description: 'Spasi sebelum tanda baca',
+    category: 'punctuation',
+    severity: 'error',
+    check: checkSpaceBeforePunctuation,
+  },
+  {
+    id: 'sentence-capitalization',
+    description: 'Huruf kapital di awal kalimat',
+    category: 'capitalization',
+    severity: 'error',
+    check: checkSentenceCapitalization,
+  },
+  ...pleonasmRules,
+  ...conjunctionRules,
+  ...createSentenceStructureRules(analyzeLexiconAffixes),
+  {
+    id: 'document-margins',
+    description: 'Margin dokumen: atas 3 cm, bawah, kiri, dan kanan 2,5 cm',
+    category: 'format',
+    severity: 'warning',
+    check: ({ margins }) => checkMargins(margins),
+  },
+];
+
+builtInRules.forEach(rule => registerRule(rule));
+
+export const checkGrammar = (text: string, margins?: DocumentMargins, options: CheckOptions = {}): GrammarError[] => {
+  const tokens = tagTokens(tokenize(text), analyzeLexiconAffixes);
+  const context: RuleContext = { text, tokens, sentences: splitSentences(text, tokens), margins, options };
+  const minConfidence = options.minConfidence ?? 0;
+  const errors = runRules(context, options.disabledRules)
+    .filter(error => error.confidence >= minConfidence);
+
+  // Remove duplicates (the earlier rule wins) and sort by position. Document
+  // format errors have no span and are never duplicates of each other.
+  const uniqueErrors = errors.filter((error, index, self) =>
+    error.start === error.end ||
+    index === self.findIndex(e => e.start === error.start && e.end === error.end)
+  );
+
+  return uniqueErrors.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,8 @@
+// Letter case helpers shared by the rules
+
+// Uppercase the first letter ("tetapi" -> "Tetapi")
+export const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Keep the capitalization of the original first letter
+export const matchCase = (original: string, replacement: string): string =>
+  /^\p{Lu}/u.test(original) ? capitalize(replacement) : replacement;
@@ -0,0 +1,488 @@
+// Indonesian morphological analyzer (affix stripping with nasal assimilation)
+export interface MorphAnalysis {
+  word: string;
+  root: string;
+  prefixes: string[];
+  suffixes: string[];
+}
+
+// Affixes of a word, or null if it has none. Rules get this instead of the
+// lexicon, which loads after they are created and is looked up on every call.
+export type AffixAnalyzer = (word: string) => MorphAnalysis | null;
+
+interface PrefixCandidate {
+  prefix: string;
+  form: string;
+  rest: string;
+}
+
+interface SuffixCandidate {
+  stem: string;
+  suffixes: string[];
+}
+
+const VOWELS = 'aiueo';
+
+// Suffixes in the order they attach to a stem: derivational, possessive, particle
+const derivationalSuffixes = ['kan', 'an', 'i'];
+const possessiveSuffixes = ['ku', 'mu', 'nya'];
+const particleSuffixes = ['lah', 'kah', 'tah', 'pun'];
+
+// Prefix and suffix pairs that never form a confix
+const disallowedAffixPairs: Record<string, string[]> = {
+  'ber-': ['i'],
+  'di-': ['an'],
+  'ke-': ['i', 'kan'],
+  'meN-': ['an'],
+  'se-': ['i', 'kan'],
+  'ter-': ['an'],
+};
+
+// Prefixes that may come directly after each prefix ("memperbaiki",
+// "diberhentikan", "kepemimpinan"). Other stacks, such as meN- + se- or a
+// prefix repeated, do not occur.
+const allowedInnerPrefixes: Record<string, string[]> = {
+  'meN-': ['per-', 'ber-'],
+  'di-': ['per-', 'ber-', 'ke-'],
+  'peN-': ['per-', 'ber-'],
+  'ter-': ['per-'],
+  'ke-': ['ber-', 'ter-', 'peN-', 'per-', 'se-'],
+  'ber-': ['ke-', 'peN-'],
+  'se-': ['peN-'],
+};
+
+// ke- and ber- only take another prefix inside a confix with -an
+// ("keberhasilan", "berpengalaman")
+const confixOuterPrefixes = ['ke-', 'ber-'];
+
+const MAX_PREFIXES = 3;
+const MIN_ROOT_LENGTH = 2;
+// Roots under stacked prefixes are longer, which keeps "kebersian" from
+// passing as ke- + ber- + "si" + -an
+const MIN_STACKED_ROOT_LENGTH = 3;
+const MIN_STEMMED_ROOT_LENGTH = 4;
+
+const isVowel = (char: string): boolean => char !== '' && VOWELS.includes(char);
+
+// Expand a nasal prefix (meN-/peN-) into every root it may have been attached to
+const nasalCandidates = (word: string, base: 'me' | 'pe'): PrefixCandidate[] => {
+  const prefix = base === 'me' ? 'meN-' : 'peN-';
+  const candidates: PrefixCandidate[] = [];
+  const add = (form: string, rest: string) => {
+    if (rest.length >= MIN_ROOT_LENGTH) candidates.push({ prefix, form, rest });
+  };
+
+  if (!word.startsWith(base)) return candidates;
+  const tail = word.slice(base.length);
+
+  // meny- + vowel: s melts (menyapu -> sapu)
+  if (tail.startsWith('ny') && isVowel(tail.charAt(2))) {
+    add(base + 'ny', 's' + tail.slice(2));
+  }
+
+  if (tail.startsWith('ng')) {
+    const rest = tail.slice(2);
+    // menge- before monosyllabic roots (mengecat -> cat)
+    if (rest.startsWith('e')) add(base + 'nge', rest.slice(1));
+    // meng- + vowel: either a vowel root or k melts (mengambil, mengirim)
+    if (isVowel(rest.charAt(0))) {
+      add(base + 'ng', rest);
+      add(base + 'ng', 'k' + rest);
+    }
+    // meng- + g/h/kh and consonant clusters (mengkritik)
+    if (/^(g|h|kh|k[^aiueo])/.test(rest)) add(base + 'ng', rest);
+  }
+
+  if (tail.startsWith('m')) {
+    const rest = tail.slice(1);
+    // mem- + b/f/v stays (membaca, memfitnah)
+    if (/^[bfv]/.test(rest)) add(base + 'm', rest);
+    // mem- + vowel: p melts (memukul -> pukul)
+    if (isVowel(rest.charAt(0))) add(base + 'm', 'p' + rest);
+    // memper- and consonant clusters (memproduksi)
+    if (/^(per|p[^aiueo])/.test(rest)) add(base + 'm', rest);
+  }
+
+  if (tail.startsWith('n') && !tail.startsWith('ng') && !tail.startsWith('ny')) {
+    const rest = tail.slice(1);
+    // men- + c/d/j/z stays (mencari, mendengar)
+    if (/^(c|d|j|z|sy)/.test(rest)) add(base + 'n', rest);
+    // men- + vowel: t melts (menulis -> tulis)
+    if (isVowel(rest.charAt(0))) add(base + 'n', 't' + rest);
+    // consonant clusters keep t and s (mentransfer, menstimulasi)
+    if (/^[ts][^aiueo]/.test(rest)) add(base + 'n', rest);
+  }
+
+  // me- before l/m/n/r/w/y and roots that already begin with a nasal
+  if (/^([lmnrwy]|ng|ny)/.test(tail)) add(base, tail);
+
+  return candidates;
+};
+
+// List every way a single prefix could be removed from the word
+const prefixCandidates = (word: string): PrefixCandidate[] => {
+  const candidates: PrefixCandidate[] = [
+    ...nasalCandidates(word, 'me'),
+    ...nasalCandidates(word, 'pe'),
+  ];
+  const add = (prefix: string, form: string) => {
+    const rest = word.slice(form.length);
+    if (word.startsWith(form) && rest.length >= MIN_ROOT_LENGTH) {
+      candidates.push({ prefix, form, rest });
+    }
+  };
+
+  // ber-/ter-/per- and their be-/te-/pe-/bel-/pel- allomorphs
+  (['ber', 'ter', 'per'] as const).forEach(full => {
+    const short = full.slice(0, 2);
+    add(`${full}-`, full);
+    if (word.startsWith(short + 'r')) add(`${full}-`, short);
+    if (new RegExp(`^${short}[^aiueor]er`).test(word)) add(`${full}-`, short);
+    if (full !== 'ter' && word.startsWith(short + 'lajar')) add(`${full}-`, short + 'l');
+  });
+
+  add('di-', 'di');
+  add('ke-', 'ke');
+  add('se-', 'se');
+
+  return candidates;
+};
+
+// List every way inflectional and derivational suffixes could be removed
+const suffixCandidates = (word: string): SuffixCandidate[] => {
+  const results: SuffixCandidate[] = [{ stem: word, suffixes: [] }];
+
+  const strip = (groups: string[][], stem: string, suffixes: string[]) => {
+    if (groups.length === 0) return;
+    const [group, ...remaining] = groups;
+    // The group may be absent
+    strip(remaining, stem, suffixes);
+    group.forEach(suffix => {
+      if (stem.endsWith(suffix) && stem.length - suffix.length >= MIN_ROOT_LENGTH) {
+        const shorter = stem.slice(0, -suffix.length);
+        const nextSuffixes = [suffix, ...suffixes];
+        results.push({ stem: shorter, suffixes: nextSuffixes });
+        strip(remaining, shorter, nextSuffixes);
+      }
+    });
+  };
+
+  strip([particleSuffixes, possessiveSuffixes, derivationalSuffixes], word, []);
+  return results;
+};
+
+// Find the lexicon entry for a root, including compounds written solid after
+// a confix (pertanggungjawaban -> "tanggung jawab")
+export const findLexiconRoot = (root: string, lexicon: Set<string>): string | null => {
+  if (root.length < MIN_ROOT_LENGTH) return null;
+  if (lexicon.has(root)) return root;
+
+  for (let i = 2; i <= root.length - 2; i++) {
+    const compound = `${root.slice(0, i)} ${root.slice(i)}`;
+    if (lexicon.has(compound)) return compound;
+  }
+
+  return null;
+};
+
+const isAllowedCombination = (prefixes: string[], suffixes: string[]): boolean => {
+  if (prefixes.length === 0) return true;
+  const hasStackedConfix = prefixes.slice(0, -1).some(prefix => confixOuterPrefixes.includes(prefix));
+  if (hasStackedConfix && !suffixes.includes('an')) return false;
+  const derivational = suffixes.find(suffix => derivationalSuffixes.includes(suffix));
+  if (!derivational) return true;
+  const disallowed = disallowedAffixPairs[prefixes[0]] || [];
+  return !disallowed.includes(derivational);
+};
+
+// Strip up to MAX_PREFIXES prefixes in an allowed order, collecting every
+// root reachable in the lexicon
+const collectPrefixAnalyses = (
+  stem: string,
+  prefixes: string[],
+  lexicon: Set<string>,
+  results: { root: string; prefixes: string[] }[],
+) => {
+  const root = prefixes.length < 2 || stem.length >= MIN_STACKED_ROOT_LENGTH ? findLexiconRoot(stem, lexicon) : null;
+  if (root) results.push({ root, prefixes });
+  if (prefixes.length >= MAX_PREFIXES) return;
+
+  const outer = prefixes[prefixes.length - 1];
+  prefixCandidates(stem)
+    .filter(candidate => !outer || (allowedInnerPrefixes[outer] || []).includes(candidate.prefix))
+    .forEach(candidate => {
+      collectPrefixAnalyses(candidate.rest, [...prefixes, candidate.prefix], lexicon, results);
+    });
+};
+
+const affixCount = (analysis: MorphAnalysis) => analysis.prefixes.length + analysis.suffixes.length;
+
+// Every analysis of a word whose root is in the lexicon, including the word
+// as its own root
+const collectAnalyses = (wordLower: string, lexicon: Set<string>): MorphAnalysis[] =>
+  suffixCandidates(wordLower).flatMap(({ stem, suffixes }) => {
+    const analyses: { root: string; prefixes: string[] }[] = [];
+    collectPrefixAnalyses(stem, [], lexicon, analyses);
+    return analyses
+      .filter(({ prefixes }) => isAllowedCombination(prefixes, suffixes))
+      .map(({ root, prefixes }) => ({ word: wordLower, root, prefixes, suffixes }));
+  });
+
+// The analysis with the fewest affixes, then the longest root. With
+// affixesOnly, the word is never its own root.
+const findBestAnalysis = (wordLower: string, lexicon: Set<string>, affixesOnly: boolean): MorphAnalysis | null => {
+  let best: MorphAnalysis | null = null;
+
+  collectAnalyses(wordLower, lexicon).forEach(analysis => {
+    if (affixesOnly && affixCount(analysis) === 0) return;
+    // Prefer the fewest affixes, then the longest root
+    if (
+      !best ||
+      affixCount(analysis) < affixCount(best) ||
+      (affixCount(analysis) === affixCount(best) && analysis.root.length > best.root.length)
+    ) {
+      best = analysis;
+    }
+  });
+
+  return best;
+};
+
+// Analyze a word into root and affixes. Returns null if no root is found in the lexicon.
+export const analyzeWord = (word: string, lexicon: Set<string>): MorphAnalysis | null => {
+  const wordLower = word.toLowerCase();
+  if (lexicon.size === 0 || wordLower.length < MIN_ROOT_LENGTH) return null;
+
+  if (lexicon.has(wordLower)) {
+    return { word: wordLower, root: wordLower, prefixes: [], suffixes: [] };
+  }
+
+  return findBestAnalysis(wordLower, lexicon, false);
+};
+
+// Analyze the affixes of a word even when the lexicon lists the affixed form
+// itself ("membahas" -> meN- + bahas). Returns null for words without affixes.
+export const analyzeAffixes = (word: string, lexicon: Set<string>): MorphAnalysis | null => {
+  const wordLower = word.toLowerCase();
+  if (lexicon.size === 0 || wordLower.length < MIN_ROOT_LENGTH) return null;
+
+  return findBestAnalysis(wordLower, lexicon, true);
+};
+
+// The lexicon lists many derived words, so a listed word is only stemmed
+// through a prefix other than a lone se-, without particles or possessives,
+// and down to a root of MIN_STEMMED_ROOT_LENGTH letters. This keeps "bersih",
+// "makan", "sepatu" and "pemerintah" whole.
+const isListedWordStem = ({ prefixes, suffixes, root }: MorphAnalysis): boolean =>
+  prefixes.length > 0 &&
+  !(prefixes.length === 1 && prefixes[0] === 'se-' && suffixes.length === 0) &&
+  suffixes.every(suffix => derivationalSuffixes.includes(suffix)) &&
+  root.length >= MIN_STEMMED_ROOT_LENGTH;
+
+const inflectionCount = (analysis: MorphAnalysis) =>
+  analysis.suffixes.filter(suffix => !derivationalSuffixes.includes(suffix)).length;
+
+// Check if the analysis is a root found earlier while stripping affixes the
+// Nazief-Adriani way: derivational suffixes before prefixes, and prefixes from
+// the outside in until a root is in the lexicon. Particles and possessives are
+// only removed when needed, since roots end in them too ("sekolah", "buku").
+const isEarlierRoot = (analysis: MorphAnalysis, best: MorphAnalysis): boolean => {
+  const rank = (candidate: MorphAnalysis) => [
+    -candidate.prefixes.length,
+    -inflectionCount(candidate),
+    candidate.suffixes.length,
+    candidate.root.length,
+  ];
+  const [a, b] = [rank(analysis), rank(best)];
+  const index = a.findIndex((value, i) => value !== b[i]);
+  return index !== -1 && a[index] > b[index];
+};
+
+// Stem a listed word through its prefixes ("bersekolah" -> ber- + sekolah),
+// or keep it whole
+const stemListedWord = (wordLower: string, lexicon: Set<string>): MorphAnalysis => {
+  let best: MorphAnalysis = { word: wordLower, root: wordLower, prefixes: [], suffixes: [] };
+  let found = false;
+  collectAnalyses(wordLower, lexicon).forEach(analysis => {
+    if (!isListedWordStem(analysis)) return;
+    if (!found || isEarlierRoot(analysis, best)) best = analysis;
+    found = true;
+  });
+  return best;
+};
+
+// Stem a word to its root, as Nazief-Adriani does: affixes are removed until
+// the first root in the lexicon ("mengatakan" -> meN- + kata + -kan,
+// "pendidikan" -> peN- + didik + -an, "menyeberang" -> meN- + seberang).
+// Returns null if no root is found in the lexicon.
+export const stemWord = (word: string, lexicon: Set<string>): MorphAnalysis | null => {
+  const wordLower = word.toLowerCase();
+  if (lexicon.size === 0 || wordLower.length < MIN_ROOT_LENGTH) return null;
+  if (lexicon.has(wordLower)) return stemListedWord(wordLower, lexicon);
+
+  const analyses = collectAnalyses(wordLower, lexicon);
+
+  // A listed word with particles or possessives ("mengatakannya") is stemmed
+  // like the listed word itself
+  const inflected = analyses
+    .filter(analysis => analysis.prefixes.length === 0 && inflectionCount(analysis) === analysis.suffixes.length)
+    .sort((a, b) => a.suffixes.length - b.suffixes.length)[0];
+  if (inflected) {
+    const base = stemListedWord(inflected.root, lexicon);
+    return { ...base, word: wordLower, suffixes: [...base.suffixes, ...inflected.suffixes] };
+  }
+
+  let best: MorphAnalysis | null = null;
+  analyses.forEach(analysis => {
+    if (!best || isEarlierRoot(analysis, best)) best = analysis;
+  });
+
+  return best;
+};
+
+// Standard words that keep k/t/s/p after a nasal prefix
+const assimilationExceptions = new Set([
+  'mengkaji', 'pengkaji', 'pengkajian', 'mempunyai',
+  // Roots in their own right, not unassimilated karung/kerang
+  'mengkarung', 'mengkerang',
+]);
+
+// Roots that are commonly confused with a different root after affixation
+const misformedRoots: Record<string, string> = {
+  'rubah': 'ubah',
+};
+
+// Attach the correct meN-/peN- allomorph to a root
+export const attachNasalPrefix = (base: 'me' | 'pe', root: string): string => {
+  const first = root.charAt(0);
+  const second = root.charAt(1);
+
+  if (/^(ng|ny)/.test(root) || /^[lmnrwy]/.test(root)) return base + root;
+  if (isVowel(first)) return base + 'ng' + root;
+  if (isVowel(second)) {
+    // k, t, s and p melt before a vowel
+    if (first === 'k') return base + 'ng' + root.slice(1);
+    if (first === 't') return base + 'n' + root.slice(1);
+    if (first === 's') return base + 'ny' + root.slice(1);
+    if (first === 'p') return base + 'm' + root.slice(1);
+  }
+  if (/^[bfvp]/.test(root)) return base + 'm' + root;
+  if (/^[cdjzts]/.test(root)) return base + 'n' + root;
+  return base + 'ng' + root;
+};
+
+const attachPrefix = (prefix: string, root: string): string | null => {
+  if (prefix === 'meN-') return attachNasalPrefix('me', root);
+  if (prefix === 'peN-') return attachNasalPrefix('pe', root);
+  if (prefix === 'di-' || prefix === 'ke-' || prefix === 'se-') return prefix.slice(0, -1) + root;
+  return null;
+};
+
+// Find the standard form of a wrongly formed meN-/peN- word, such as
+// "mempengaruhi" (p must melt) or "menterjemahkan" (t must melt).
+// Returns null if the word is formed correctly.
+export const findAffixFormationError = (word: string, lexicon: Set<string>): string | null => {
+  const wordLower = word.toLowerCase();
+  if (lexicon.size === 0 || assimilationExceptions.has(wordLower)) return null;
+
+  const analysis = analyzeWord(wordLower, lexicon);
+
+  // merubah -> mengubah, dirubah -> diubah
+  if (analysis && analysis.prefixes.length === 1 && misformedRoots[analysis.root]) {
+    const prefixed = attachPrefix(analysis.prefixes[0], misformedRoots[analysis.root]);
+    if (prefixed) return prefixed + analysis.suffixes.join('');
+  }
+
+  const inLexicon = lexicon.has(wordLower);
+
+  // mempengaruhinya -> memengaruhinya: check the listed word, keep the suffixes
+  if (!inLexicon && analysis && analysis.prefixes.length === 0 && analysis.suffixes.length > 0) {
+    const corrected = findAffixFormationError(analysis.root, lexicon);
+    return corrected ? corrected + analysis.suffixes.join('') : null;
+  }
+
+  // KBBI lists some unassimilated forms ("mempengaruhi" next to "memengaruhi"),
+  // but also plain roots that only look prefixed ("mentari", "penting").
+  // A listed word is only flagged when the standard form is listed too and
+  // the root is long enough not to be a coincidence.
+  const isAcceptable = (candidate: string, stem: string) => {
+    if (candidate === wordLower) return false;
+    if (inLexicon) return lexicon.has(candidate) && stem.length >= 6;
+    if (lexicon.has(candidate)) return true;
+    const candidateAnalysis = analyzeWord(candidate, lexicon);
+    return candidateAnalysis !== null && (!analysis || affixCount(candidateAnalysis) <= affixCount(analysis));
+  };
+
+  for (const base of ['me', 'pe'] as const) {
+    if (!wordLower.startsWith(base)) continue;
+
+    for (const nasal of ['ng', 'ny', 'm', 'n', '']) {
+      const form = base + nasal;
+      if (!wordLower.startsWith(form)) continue;
+      const rest = wordLower.slice(form.length);
+
+      // Unmelted k/t/s/p are checked on every word; other allomorph
+      // mistakes only on words the analyzer could not explain
+      const unmelted = nasal !== '' && /^[ktsp][aiueo]/.test(rest);
+      if (!unmelted && (inLexicon || analysis)) break;
+
+      const roots = [rest];
+      if (isVowel(rest.charAt(0))) roots.push(...['k', 't', 's', 'p'].map(consonant => consonant + rest));
+
+      for (const candidateRoot of roots) {
+        for (const { stem, suffixes } of suffixCandidates(candidateRoot)) {
+          if (!lexicon.has(stem)) continue;
+          const corrected = attachNasalPrefix(base, stem) + suffixes.join('');
+          if (isAcceptable(corrected, stem)) return corrected;
+        }
+      }
+      break;
+    }
+  }
+
+  return null;
+};
+
+export interface ReduplicationAnalysis {
+  word: string;
+  base: string;
+  type: 'lexical' | 'full' | 'affixed' | 'reciprocal';
+}
+
+// Analyze a hyphenated word as reduplication: listed in KBBI ("sayur-mayur"),
+// full ("anak-anak"), affixed ("berlari-lari", "kemerah-merahan") or
+// reciprocal ("tolong-menolong"). Returns null if the halves do not match or
+// are not found in the lexicon.
+export const analyzeReduplication = (word: string, lexicon: Set<string>): ReduplicationAnalysis | null => {
+  const wordLower = word.toLowerCase();
+  const parts = wordLower.split('-');
+  if (lexicon.size === 0 || parts.length !== 2 || parts.some(part => part.length < 2)) return null;
+
+  // Listed entries, optionally with suffixes ("sayur-mayurnya")
+  for (const { stem } of suffixCandidates(wordLower)) {
+    if (lexicon.has(stem)) return { word: wordLower, base: stem, type: 'lexical' };
+  }
+
+  const [left, right] = parts;
+  const isValid = (part: string) => analyzeWord(part, lexicon) !== null;
+
+  if (left === right && isValid(left)) {
+    return { word: wordLower, base: left, type: 'full' };
+  }
+
+  // The right half repeats the end of the left half, with suffixes:
+  // anak-anaknya, berlari-lari, menari-nari, kemerah-merahan
+  for (const { stem } of suffixCandidates(right)) {
+    if (left.endsWith(stem) && (lexicon.has(stem) || isValid(left))) {
+      return { word: wordLower, base: stem, type: 'affixed' };
+    }
+  }
+
+  // The right half is an affixed form of the left half: tolong-menolong
+  const rightAnalysis = analyzeWord(right, lexicon);
+  if (rightAnalysis && rightAnalysis.root === left && rightAnalysis.prefixes.length > 0) {
+    return { word: wordLower, base: left, type: 'reciprocal' };
+  }
+
+  return null;
+};
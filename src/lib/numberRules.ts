@@ -0,0 +1,518 @@
+// Number writing rules (PUEBI: penulisan angka dan bilangan)
+import type { GrammarRule, RuleContext, RuleFinding } from '@/lib/ruleRegistry';
+import { isSeparatedBySpace, type Token } from '@/lib/tokenizer';
+import { monthNames } from '@/lib/dateTimeRules';
+import type { Sentence } from '@/lib/sentenceSegmenter';
+import { capitalize } from '@/lib/letterCase';
+
+const digitWords = ['nol', 'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan', 'sembilan'];
+
+const numberScales: [number, string][] = [
+  [1e12, 'triliun'],
+  [1e9, 'miliar'],
+  [1e6, 'juta'],
+];
+
+// Spell out a whole number: 15 -> "lima belas", 1000 -> "seribu". The value
+// must be a safe integer; larger values never reach zero.
+export const spellNumber = (value: number): string => {
+  const withRest = (head: string, rest: number) => rest === 0 ? head : `${head} ${spellNumber(rest)}`;
+
+  if (value < 10) return digitWords[value];
+  if (value === 10) return 'sepuluh';
+  if (value === 11) return 'sebelas';
+  if (value < 20) return `${digitWords[value - 10]} belas`;
+  if (value < 100) return withRest(`${digitWords[Math.floor(value / 10)]} puluh`, value % 10);
+  if (value < 1000) return withRest(value < 200 ? 'seratus' : `${digitWords[Math.floor(value / 100)]} ratus`, value % 100);
+  if (value < 1e6) return withRest(value < 2000 ? 'seribu' : `${spellNumber(Math.floor(value / 1000))} ribu`, value % 1000);
+
+  const [scale, name] = numberScales.find(([size]) => value >= size) ?? numberScales[numberScales.length - 1];
+  return withRest(`${spellNumber(Math.floor(value / scale))} ${name}`, value % scale);
+};
+
+// Words that make up a spelled-out number ("dua puluh lima", "seratus")
+const numeralWords = new Set([
+  ...digitWords.slice(1), 'sepuluh', 'sebelas', 'seratus', 'seribu',
+  'belas', 'puluh', 'ratus', 'ribu', 'juta', 'miliar', 'triliun',
+]);
+
+const multiplierWords: Record<string, number> = { belas: 10, puluh: 10, ratus: 100 };
+
+const scaleWords: Record<string, number> = { ribu: 1e3, juta: 1e6, miliar: 1e9, triliun: 1e12 };
+
+// Value of a spelled-out number, the reverse of spellNumber
+export const parseNumberWords = (words: string[]): number => {
+  let total = 0;
+  let group = 0;
+  let unit = 0;
+
+  words.forEach(word => {
+    const digit = digitWords.indexOf(word);
+    if (digit > 0) {
+      unit = digit;
+    } else if (word === 'belas') {
+      group += unit + 10;
+      unit = 0;
+    } else if (multiplierWords[word]) {
+      group += unit * multiplierWords[word];
+      unit = 0;
+    } else if (word === 'sepuluh' || word === 'sebelas' || word === 'seratus') {
+      group += { sepuluh: 10, sebelas: 11, seratus: 100 }[word];
+    } else if (word === 'seribu') {
+      total += 1000;
+    } else if (scaleWords[word]) {
+      total += (group + unit) * scaleWords[word];
+      group = 0;
+      unit = 0;
+    }
+  });
+
+  return total + group + unit;
+};
+
+// Write a whole number with thousands separators: 1500000 -> "1.500.000"
+export const formatNumber = (integer: string): string => integer.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+
+interface ParsedNumber {
+  integer: string;
+  fraction?: string;
+  // Which convention the number was written in
+  convention: 'indonesian' | 'english' | 'plain';
+}
+
+// Read a number written with either separator convention: Indonesian uses
+// a dot for thousands and a comma for decimals (1.500,25), English the
+// reverse (1,500.25). Returns null when the reading is ambiguous ("1,500"
+// outside an amount) or the number is something else, such as a date.
+const parseSeparators = (written: string, isAmount: boolean): ParsedNumber | null => {
+  if (/^\d+$/.test(written)) return { integer: written, convention: 'plain' };
+
+  let match = written.match(/^(\d{1,3}(?:\.\d{3})+)(?:,(\d+))?$/);
+  if (match) return { integer: match[1].replace(/\./g, ''), fraction: match[2], convention: 'indonesian' };
+
+  match = written.match(/^(\d+),(\d+)$/);
+  if (match && !(isAmount && match[2].length === 3)) return { integer: match[1], fraction: match[2], convention: 'indonesian' };
+
+  match = written.match(/^(\d{1,3}(?:,\d{3})+)(?:\.(\d+))?$/);
+  if (match && (isAmount || match[2] !== undefined || match[1].includes(',', match[1].indexOf(',') + 1))) {
+    return { integer: match[1].replace(/,/g, ''), fraction: match[2], convention: 'english' };
+  }
+
+  // A dot followed by anything but three digits is a decimal point (3.5)
+  match = written.match(/^(\d+)\.(\d{1,2}|\d{4,})$/);
+  if (match) return { integer: match[1], fraction: match[2], convention: 'english' };
+
+  return null;
+};
+
+// Write a parsed number the Indonesian way. Thousands are grouped in amounts
+// and in long numbers, but not in years (2026) or short counts.
+const formatIndonesian = ({ integer, fraction, convention }: ParsedNumber, isAmount: boolean): string => {
+  const grouped = isAmount || convention !== 'plain' || integer.length >= 5 ? formatNumber(integer) : integer;
+  return fraction === undefined ? grouped : `${grouped},${fraction}`;
+};
+
+// Words after which a number is a label, a time or a code, not a quantity
+// ("pasal 5", "pukul 09.00", "nomor 12345")
+const referenceWords = new Set([
+  'bab', 'subbab', 'pasal', 'ayat', 'butir', 'huruf', 'bagian', 'lampiran', 'gambar',
+  'tabel', 'grafik', 'diagram', 'halaman', 'hlm', 'hal', 'nomor', 'no', 'nomer', 'versi',
+  'tahun', 'thn', 'tanggal', 'tgl', 'pukul', 'jam', 'kamar', 'lantai', 'ruang', 'gedung',
+  'blok', 'jalan', 'jl', 'jln', 'gang', 'gg', 'rt', 'rw', 'kode', 'pos', 'nip', 'nik',
+  'nim', 'npwp', 'telepon', 'telp', 'hp', 'rekening', 'kelas', 'tingkat', 'jilid',
+  'volume', 'vol', 'edisi', 'cetakan', 'seri', 'tipe', 'level', 'kilometer', 'km',
+]);
+
+// Units of measure, time and money take numerals ("5 kilogram", "1 jam 20 menit")
+const unitWords = new Set([
+  'mm', 'cm', 'm', 'km', 'milimeter', 'sentimeter', 'meter', 'kilometer', 'inci',
+  'mg', 'g', 'kg', 'gram', 'kilogram', 'ons', 'ton', 'kuintal', 'ml', 'l', 'liter',
+  'mililiter', 'ha', 'hektare', 'are', 'persen', 'derajat', 'detik', 'menit', 'jam',
+  'rupiah', 'dolar', 'euro', 'yen', 'ringgit', 'sks', 'kb', 'mb', 'gb', 'tb', 'watt',
+  'volt', 'kwh', 'hz', 'mhz', 'ghz', 'wib', 'wita', 'wit',
+]);
+
+const isWord = (token: Token | undefined): token is Token => token?.kind === 'word';
+
+const normalizedWord = (token: Token | undefined): string => isWord(token) ? token.text.toLowerCase() : '';
+
+// The first token of a sentence that is not an opening quote, bracket or dash
+const firstContentToken = (sentence: Sentence): Token | undefined =>
+  sentence.tokens.find(token => token.kind !== 'punctuation');
+
+// The word before a token, skipping an abbreviation period ("hlm. 5")
+const wordBefore = (tokens: Token[], index: number): Token | undefined =>
+  tokens[index - 1]?.text === '.' ? tokens[index - 2] : tokens[index - 1];
+
+// Numbers at the start of a sentence are spelled out or the sentence is
+// rephrased. Headings and list markers ("1.", "2)") are not sentences.
+const checkSentenceStart = ({ sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    const first = firstContentToken(sentence);
+    if (!first || first.kind !== 'number' || !sentence.tokens.some(isWord)) return;
+
+    const next = sentence.tokens[sentence.tokens.indexOf(first) + 1];
+    if (next && next.start === first.end && /^[.)]$/.test(next.text)) return;
+
+    const value = Number(first.text);
+    // Digit strings too long to be exact are not numbers to rewrite
+    if (/^\d+$/.test(first.text) && !Number.isSafeInteger(value)) return;
+
+    const spelled = /^\d+$/.test(first.text) && !first.text.startsWith('0') ? spellNumber(value) : null;
+    if (spelled && spelled.split(' ').length <= 3) {
+      const replacement = capitalize(spelled);
+      errors.push({
+        type: 'number',
+        text: first.text,
+        message: `Kalimat tidak diawali angka. Tulis bilangan dengan huruf: "${replacement}"`,
+        shortMessage: 'Angka di awal kalimat',
+        replacements: [replacement],
+        confidence: 0.9,
+        start: first.start,
+        end: first.end,
+      });
+    } else {
+      errors.push({
+        type: 'number',
+        text: first.text,
+        message: 'Kalimat tidak diawali angka. Ubah susunan kalimat, misalnya "Sebanyak 250 orang hadir" atau "Panitia mengundang 250 orang".',
+        shortMessage: 'Angka di awal kalimat',
+        replacements: [],
+        severity: 'warning',
+        confidence: 0.8,
+        start: first.start,
+        end: first.end,
+      });
+    }
+  });
+
+  return errors;
+};
+
+// Numbers that can be written in one or two words are spelled out ("tiga
+// kali"), except in series, measurements, dates, and labels
+const checkSpelledOut = ({ sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    const { tokens } = sentence;
+    // Several numbers in one sentence are a series, written with numerals
+    if (tokens.filter(token => token.kind === 'number').length !== 1) return;
+
+    tokens.forEach((token, index) => {
+      if (token.kind !== 'number' || !/^[1-9]\d*$/.test(token.text) || token === firstContentToken(sentence)) return;
+
+      const value = Number(token.text);
+      if (!Number.isSafeInteger(value)) return;
+      const spelled = spellNumber(value);
+      if (spelled.split(' ').length > 2) return;
+
+      const previous = tokens[index - 1];
+      const next = tokens[index + 1];
+      // Attached marks make it a ratio, percentage, range or code (3/4, 5%, 2-3)
+      if (previous && previous.end === token.start && previous.text !== '(') return;
+      if (next && next.start === token.end && !/^[,.;:!?)]$/.test(next.text)) return;
+      if (referenceWords.has(normalizedWord(wordBefore(tokens, index)))) return;
+      // Measurements and days of the month are written with numerals ("5 kg", "17 Agustus")
+      if (unitWords.has(normalizedWord(next)) || monthNames.includes(normalizedWord(next))) return;
+      if (next && next.kind === 'symbol') return;
+
+      errors.push({
+        type: 'number',
+        text: token.text,
+        message: `Bilangan yang dapat dinyatakan dengan satu atau dua kata ditulis dengan huruf: "${spelled}"`,
+        shortMessage: 'Bilangan ditulis dengan huruf',
+        replacements: [spelled],
+        confidence: 0.6,
+        start: token.start,
+        end: token.end,
+      });
+    });
+  });
+
+  return errors;
+};
+
+// Words before "ke" that make it an ordinal ("abad ke 20") rather than the
+// preposition ("pergi ke 5 kota")
+const ordinalHeads = new Set([
+  'abad', 'tahun', 'hari', 'minggu', 'bulan', 'kali', 'juara', 'urutan', 'peringkat',
+  'bagian', 'babak', 'putaran', 'tahap', 'angkatan', 'generasi', 'edisi', 'lantai',
+  'anak', 'yang', 'ulang',
+]);
+
+// Ordinals with numerals take "ke-" with a hyphen ("abad ke-20"), spelled
+// ordinals are written together ("kedua"), and decades take "-an" ("1990-an")
+const checkNumberHyphen = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  const ordinalFinding = (start: number, end: number, correct: string, confidence: number): RuleFinding => ({
+    type: 'number',
+    text: text.slice(start, end),
+    message: `Bilangan tingkat dengan angka ditulis dengan tanda hubung: "${correct}"`,
+    shortMessage: 'Tanda hubung "ke-"',
+    replacements: [correct],
+    confidence,
+    start,
+    end,
+  });
+
+  const decadeFinding = (start: number, end: number, digits: string): RuleFinding => ({
+    type: 'number',
+    text: text.slice(start, end),
+    message: `Akhiran "-an" pada angka ditulis dengan tanda hubung: "${digits}-an"`,
+    shortMessage: 'Tanda hubung "-an"',
+    replacements: [`${digits}-an`],
+    confidence: 0.9,
+    start,
+    end,
+  });
+
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+
+    if (token.kind === 'word') {
+      // "ke20" -> "ke-20"
+      const joinedOrdinal = token.text.match(/^([Kk]e)(\d+)$/);
+      if (joinedOrdinal) {
+        errors.push(ordinalFinding(token.start, token.end, `${joinedOrdinal[1]}-${joinedOrdinal[2]}`, 0.95));
+      }
+
+      // "ke 20" -> "ke-20", unless a counted noun follows after the preposition
+      if (/^[Kk]e$/.test(token.text) && next?.kind === 'number' && /^\d+$/.test(next.text) && isSeparatedBySpace(text, token, next)) {
+        const following = tokens[index + 2];
+        const hasOrdinalHead = ordinalHeads.has(normalizedWord(tokens[index - 1]));
+        const isCounted = isWord(following) && isSeparatedBySpace(text, next, following);
+        if (hasOrdinalHead || !isCounted) {
+          errors.push(ordinalFinding(token.start, next.end, `${token.text}-${next.text}`, hasOrdinalHead ? 0.9 : 0.75));
+        }
+      }
+
+      // "ke-dua" -> "kedua"
+      const hyphenatedOrdinal = token.text.match(/^([Kk]e)-(\p{L}+)$/u);
+      if (hyphenatedOrdinal && numeralWords.has(hyphenatedOrdinal[2].toLowerCase())) {
+        const correct = hyphenatedOrdinal[1] + hyphenatedOrdinal[2];
+        errors.push({
+          type: 'number',
+          text: token.text,
+          message: `Bilangan tingkat dengan huruf ditulis serangkai: "${correct}"`,
+          shortMessage: 'Bilangan tingkat serangkai',
+          replacements: [correct],
+          confidence: 0.9,
+          start: token.start,
+          end: token.end,
+        });
+      }
+      return;
+    }
+
+    if (token.kind !== 'number') return;
+
+    // "1990an" -> "1990-an"
+    const joinedDecade = token.text.match(/^(\d+)an$/);
+    if (joinedDecade) {
+      errors.push(decadeFinding(token.start, token.end, joinedDecade[1]));
+      return;
+    }
+
+    // "1990 an", "1990'an" -> "1990-an"
+    if (!/^\d+$/.test(token.text) || !next) return;
+    const apostrophe = /^['’]$/.test(next.text) && next.start === token.end ? next : null;
+    const suffix = apostrophe ? tokens[index + 2] : next;
+    if (suffix?.text === 'an' && (apostrophe ? suffix.start === apostrophe.end : isSeparatedBySpace(text, token, suffix))) {
+      errors.push(decadeFinding(token.start, suffix.end, token.text));
+    }
+  });
+
+  return errors;
+};
+
+// Amounts in rupiah: "Rp" is written without a period or space and the
+// amount with Indonesian separators ("Rp10.000,00")
+const checkCurrency = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  tokens.forEach((token, index) => {
+    let amountIndex = index;
+    if (isWord(token) && /^rp$/i.test(token.text)) {
+      // "Rp 10.000", "Rp. 10.000", "Rp.10.000"
+      amountIndex = tokens[index + 1]?.text === '.' ? index + 2 : index + 1;
+      const amount = tokens[amountIndex];
+      if (amount?.kind !== 'number' || amount.text.startsWith('Rp') || !/^\.?\s*$/.test(text.slice(token.end, amount.start))) return;
+    } else if (token.kind !== 'number' || !token.text.startsWith('Rp')) {
+      return;
+    }
+
+    const amount = tokens[amountIndex];
+    const digits = amount.text.replace(/^Rp/, '');
+    const parsed = parseSeparators(digits, true);
+
+    // "Rp10.000,-" -> "Rp10.000,00"
+    const comma = tokens[amountIndex + 1];
+    const dash = tokens[amountIndex + 2];
+    const hasDashCents = comma?.text === ',' && comma.start === amount.end &&
+      /^[-–—]$/.test(dash?.text ?? '') && dash.start === comma.end;
+
+    const end = hasDashCents ? dash.end : amount.end;
+    const cents = hasDashCents && parsed?.fraction === undefined ? ',00' : '';
+    const correct = `Rp${parsed ? formatIndonesian(parsed, true) : digits}${cents}`;
+    const written = text.slice(token.start, end);
+    if (correct === written) return;
+
+    errors.push({
+      type: 'number',
+      text: written,
+      message: `Nilai uang ditulis dengan "Rp" serangkai dengan angkanya, titik sebagai pemisah ribuan, dan koma sebagai pemisah desimal: "${correct}"`,
+      shortMessage: 'Penulisan nilai uang',
+      replacements: [correct],
+      confidence: 0.9,
+      start: token.start,
+      end,
+    });
+  });
+
+  return errors;
+};
+
+// Thousands are separated with a dot and decimals with a comma (1.500,25)
+const checkSeparators = ({ text, tokens }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  tokens.forEach((token, index) => {
+    // Amounts in rupiah are checked as a whole by the currency rule
+    if (token.kind !== 'number' || !/^\d/.test(token.text) || /^rp$/i.test(normalizedWord(wordBefore(tokens, index)))) return;
+    // Numbers with a leading zero are codes, phone numbers or times (0812..., 09.00)
+    if (/^0\d/.test(token.text) || /^\d{1,2}\.\d{2}$/.test(token.text)) return;
+    if (referenceWords.has(normalizedWord(wordBefore(tokens, index)))) return;
+
+    const previous = tokens[index - 1];
+    if (previous && previous.end === token.start && previous.text !== '(') return;
+
+    const parsed = parseSeparators(token.text, false);
+    if (!parsed || parsed.convention === 'indonesian') return;
+    if (parsed.convention === 'plain' && token.text.length < 5) return;
+
+    const correct = formatIndonesian(parsed, false);
+    const isLongNumber = parsed.convention === 'plain';
+    errors.push({
+      type: 'number',
+      text: token.text,
+      message: isLongNumber
+        ? `Gunakan titik sebagai pemisah ribuan: "${correct}"`
+        : `Gunakan titik sebagai pemisah ribuan dan koma sebagai pemisah desimal: "${correct}"`,
+      shortMessage: 'Pemisah ribuan dan desimal',
+      replacements: [correct],
+      // Long numbers may be codes, and "3.5" may be a section number
+      ...(isLongNumber ? { severity: 'hint' as const, confidence: 0.4 } : { confidence: token.text.includes(',') ? 0.85 : 0.6 }),
+      start: token.start,
+      end: token.end,
+    });
+  });
+
+  return errors;
+};
+
+// Items of one series are all written with numerals ("3 apel, 5 jeruk, dan
+// 2 pisang"), not partly spelled out ("3 apel, lima jeruk")
+const checkMixedSeries = ({ text, sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    const { tokens } = sentence;
+    const isListMark = (token: Token) => /^[,;]$/.test(token.text) || ['dan', 'atau', 'serta'].includes(normalizedWord(token));
+    // An item is a number followed by the counted word
+    const isItem = (lastIndex: number) => isWord(tokens[lastIndex + 1]) && !unitWords.has(normalizedWord(tokens[lastIndex + 1]));
+
+    // Counted numerals, leaving out years and labels
+    const numerals = tokens
+      .map((token, index) => ({ token, index }))
+      .filter(({ token, index }) =>
+        token.kind === 'number' && /^[1-9][\d.,]*$/.test(token.text) && !/^\d{4}$/.test(token.text) &&
+        !referenceWords.has(normalizedWord(wordBefore(tokens, index))) && isItem(index));
+    if (numerals.length === 0) return;
+
+    // Runs of number words ("dua puluh lima"), starting with a digit word
+    const phrases: { first: number; last: number }[] = [];
+    tokens.forEach((token, index) => {
+      const word = normalizedWord(token);
+      if (!numeralWords.has(word)) return;
+      const current = phrases[phrases.length - 1];
+      if (current && current.last === index - 1) {
+        current.last = index;
+      } else if (!multiplierWords[word] && !scaleWords[word] && normalizedWord(tokens[index - 1]) !== 'salah') {
+        phrases.push({ first: index, last: index });
+      }
+    });
+
+    phrases
+      .filter(({ first, last }) => isItem(last) && numerals.some(({ index }) => {
+        const between = index < first ? tokens.slice(index + 1, first) : tokens.slice(last + 1, index);
+        return between.some(isListMark);
+      }))
+      .forEach(({ first, last }) => {
+        const start = tokens[first].start;
+        const end = tokens[last].end;
+        const words = tokens.slice(first, last + 1).map(token => token.text.toLowerCase());
+        const correct = formatNumber(String(parseNumberWords(words)));
+        errors.push({
+          type: 'number',
+          text: text.slice(start, end),
+          message: `Bilangan dalam satu rincian ditulis seragam dengan angka: "${correct}"`,
+          shortMessage: 'Angka dan huruf bercampur',
+          replacements: [correct],
+          confidence: 0.7,
+          start,
+          end,
+        });
+      });
+  });
+
+  return errors;
+};
+
+export const numberRules: GrammarRule[] = [
+  {
+    id: 'number-sentence-start',
+    description: 'Kalimat tidak diawali angka',
+    category: 'number',
+    severity: 'error',
+    check: checkSentenceStart,
+  },
+  {
+    id: 'number-spelled-out',
+    description: 'Bilangan yang dapat dinyatakan dengan satu atau dua kata ditulis dengan huruf',
+    category: 'number',
+    severity: 'warning',
+    check: checkSpelledOut,
+  },
+  {
+    id: 'number-hyphen',
+    description: 'Tanda hubung pada "ke-" dengan angka dan pada "-an" (abad ke-20, tahun 1990-an)',
+    category: 'number',
+    severity: 'error',
+    check: checkNumberHyphen,
+  },
+  {
+    id: 'currency-format',
+    description: 'Penulisan nilai uang dalam rupiah (Rp10.000,00)',
+    category: 'number',
+    severity: 'error',
+    check: checkCurrency,
+  },
+  {
+    id: 'number-separators',
+    description: 'Titik sebagai pemisah ribuan dan koma sebagai pemisah desimal',
+    category: 'number',
+    severity: 'warning',
+    check: checkSeparators,
+  },
+  {
+    id: 'number-mixed-series',
+    description: 'Bilangan dalam satu rincian tidak bercampur antara angka dan huruf',
+    category: 'number',
+    severity: 'warning',
+    check: checkMixedSeries,
+  },
+];
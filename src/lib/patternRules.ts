@@ -0,0 +1,232 @@
+// Declarative token-pattern rules, written as JSON by editors
+import { z } from 'zod';
+import type { GrammarError } from '@/lib/grammarChecker';
+import type { GrammarRule, RuleCategory, RuleFinding } from '@/lib/ruleRegistry';
+import type { Token } from '@/lib/tokenizer';
+import { splitSentences, type Sentence } from '@/lib/sentenceSegmenter';
+import { matchCase } from '@/lib/letterCase';
+
+const isValidRegex = (source: string): boolean => {
+  try {
+    new RegExp(source, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// One element of a pattern. All given conditions must hold for a token.
+export const tokenPatternSchema = z.object({
+  // Exact token text, case-insensitive unless caseSensitive is set
+  literal: z.string().min(1).optional(),
+  // Root word, so "ubah" also matches "mengubah" and "diubah"
+  lemma: z.string().min(1).optional(),
+  // Regular expression the whole token must match
+  regex: z.string().min(1).refine(isValidRegex, { message: 'Ekspresi reguler tidak valid' }).optional(),
+  kind: z.enum(['word', 'number', 'url', 'email', 'punctuation', 'symbol']).optional(),
+  caseSensitive: z.boolean().optional(),
+  // The token may be absent
+  optional: z.boolean().optional(),
+  // The token must match but is not part of the reported text
+  context: z.boolean().optional(),
+}).refine(
+  token => token.literal !== undefined || token.lemma !== undefined || token.regex !== undefined || token.kind !== undefined,
+  { message: 'Pola token memerlukan literal, lemma, regex, atau kind' },
+);
+
+export const patternRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: 'ID aturan harus berupa huruf kecil, angka, dan tanda hubung' }),
+  description: z.string().min(1),
+  category: z.enum(['spelling', 'word-formation', 'punctuation', 'capitalization', 'grammar', 'style', 'number', 'format']).default('style'),
+  severity: z.enum(['error', 'warning', 'hint']).default('warning'),
+  // How sure a match is an error, from 0 to 1
+  confidence: z.number().min(0).max(1).default(0.8),
+  pattern: z.array(tokenPatternSchema).min(1)
+    .refine(pattern => pattern.some(token => !token.optional && !token.context), { message: 'Pola memerlukan setidaknya satu token wajib di luar konteks' }),
+  // Placeholders: {match} for the matched text, {replacement} for the first
+  // replacement and {1}, {2}, ... for the text matched by each pattern element
+  message: z.string().min(1),
+  // Short label for lists and tooltips, the description when not given
+  shortMessage: z.string().min(1).optional(),
+  // Text to put in place of the reported tokens, best first; placeholders as in message
+  replacements: z.array(z.string()).default([]),
+  // Skip questions ("Kamu tinggal di mana?")
+  excludeQuestions: z.boolean().default(false),
+  example: z.object({
+    incorrect: z.string().min(1),
+    correct: z.string().min(1),
+  }),
+});
+
+export const patternRuleFileSchema = z.object({
+  rules: z.array(z.unknown()),
+});
+
+export type TokenPattern = z.infer<typeof tokenPatternSchema>;
+export type PatternRule = z.infer<typeof patternRuleSchema>;
+
+// Root of a word, used to match lemma patterns
+export type Lemmatizer = (word: string) => string;
+
+// Error type shown in the UI for each rule category
+const categoryErrorTypes: Record<RuleCategory, GrammarError['type']> = {
+  'spelling': 'misspelling',
+  'word-formation': 'affixation',
+  'punctuation': 'punctuation',
+  'capitalization': 'capitalization',
+  'grammar': 'grammar',
+  'style': 'informal',
+  'number': 'number',
+  'format': 'format',
+};
+
+// Compiled regular expressions, shared by all rules
+const regexCache = new Map<string, RegExp>();
+
+const compileRegex = (source: string, caseSensitive: boolean): RegExp => {
+  const key = `${caseSensitive ? 'u' : 'iu'}:${source}`;
+  let regex = regexCache.get(key);
+  if (!regex) {
+    regex = new RegExp(`^(?:${source})$`, caseSensitive ? 'u' : 'iu');
+    regexCache.set(key, regex);
+  }
+  return regex;
+};
+
+const matchesToken = (pattern: TokenPattern, token: Token, lemmatize: Lemmatizer): boolean => {
+  const text = pattern.caseSensitive ? token.text : token.text.toLowerCase();
+
+  if (pattern.kind && token.kind !== pattern.kind) return false;
+  if (pattern.literal !== undefined && text !== (pattern.caseSensitive ? pattern.literal : pattern.literal.toLowerCase())) return false;
+  if (pattern.regex !== undefined && !compileRegex(pattern.regex, !!pattern.caseSensitive).test(token.text)) return false;
+  if (pattern.lemma !== undefined && (token.kind !== 'word' || lemmatize(token.text.toLowerCase()) !== pattern.lemma.toLowerCase())) return false;
+
+  return true;
+};
+
+// Match the pattern against the tokens starting at the given index. Returns
+// the token matched by each pattern element (null for a skipped optional
+// one), or null if the pattern does not match.
+const matchPattern = (
+  pattern: TokenPattern[],
+  tokens: Token[],
+  from: number,
+  lemmatize: Lemmatizer,
+): (Token | null)[] | null => {
+  if (pattern.length === 0) return [];
+
+  const [first, ...rest] = pattern;
+  const token = tokens[from];
+
+  if (token && matchesToken(first, token, lemmatize)) {
+    const restMatch = matchPattern(rest, tokens, from + 1, lemmatize);
+    if (restMatch) return [token, ...restMatch];
+  }
+  if (first.optional) {
+    const restMatch = matchPattern(rest, tokens, from, lemmatize);
+    if (restMatch) return [null, ...restMatch];
+  }
+
+  return null;
+};
+
+const fillTemplate = (template: string, text: string, matched: (Token | null)[], replacement: string): string =>
+  template
+    .replace(/\{match\}/g, text)
+    .replace(/\{replacement\}/g, replacement)
+    .replace(/\{(\d+)\}/g, (placeholder, index) => {
+      const token = matched[Number(index) - 1];
+      return token === undefined ? placeholder : token?.text ?? '';
+    });
+
+// Find every match of the rule in the text, one per starting token
+export const findPatternMatches = (rule: PatternRule, text: string, sentences: Sentence[], lemmatize: Lemmatizer): RuleFinding[] => {
+  const findings: RuleFinding[] = [];
+
+  sentences.forEach(sentence => {
+    if (rule.excludeQuestions && sentence.tokens.some(token => token.text === '?')) return;
+
+    let i = 0;
+    while (i < sentence.tokens.length) {
+      const matched = matchPattern(rule.pattern, sentence.tokens, i, lemmatize);
+      if (!matched) {
+        i++;
+        continue;
+      }
+
+      // Report only the tokens outside the context elements
+      const reported = matched.filter((token, index): token is Token => token !== null && !rule.pattern[index].context);
+      const start = reported[0].start;
+      const end = reported[reported.length - 1].end;
+      const matchText = text.slice(start, end);
+      // Replacements keep the capital of a sentence-initial match
+      const replacements = rule.replacements
+        .map(template => fillTemplate(template, matchText, matched, ''))
+        .map(replacement => matchCase(matchText, replacement));
+
+      findings.push({
+        type: categoryErrorTypes[rule.category],
+        text: matchText,
+        message: fillTemplate(rule.message, matchText, matched, replacements[0] ?? ''),
+        shortMessage: rule.shortMessage ?? rule.description,
+        replacements,
+        confidence: rule.confidence,
+        start,
+        end,
+      });
+      i += matched.filter(token => token !== null).length;
+    }
+  });
+
+  return findings;
+};
+
+// Turn a validated pattern rule into a registry rule
+export const compilePatternRule = (rule: PatternRule, lemmatize: Lemmatizer): GrammarRule => ({
+  id: rule.id,
+  description: rule.description,
+  category: rule.category,
+  severity: rule.severity,
+  check: ({ text, sentences }) => findPatternMatches(rule, text, sentences, lemmatize),
+});
+
+// Check a rule against its own example: the incorrect sentence must match
+// and the correct one must not
+export const checkRuleExample = (rule: PatternRule, lemmatize: Lemmatizer): boolean => {
+  const { incorrect, correct } = rule.example;
+  return findPatternMatches(rule, incorrect, splitSentences(incorrect), lemmatize).length > 0 &&
+    findPatternMatches(rule, correct, splitSentences(correct), lemmatize).length === 0;
+};
+
+// Validate raw JSON rules. Invalid rules are reported and skipped so that one
+// mistake does not disable the whole file.
+export const parsePatternRules = (json: unknown): PatternRule[] => {
+  const file = patternRuleFileSchema.safeParse(json);
+  if (!file.success) {
+    console.error('Invalid pattern rule file:', file.error.issues);
+    return [];
+  }
+
+  const rules: PatternRule[] = [];
+  file.data.rules.forEach((raw, index) => {
+    const result = patternRuleSchema.safeParse(raw);
+    if (result.success) {
+      rules.push(result.data);
+    } else {
+      console.error(`Invalid pattern rule at index ${index}:`, result.error.issues);
+    }
+  });
+
+  return rules;
+};
+
+// Load pattern rules from a JSON file
+export const loadPatternRules = async (url: string): Promise<PatternRule[]> => {
+  try {
+    const response = await fetch(url);
+    return parsePatternRules(await response.json());
+  } catch (error) {
+    console.error('Error loading pattern rules:', error);
+    return [];
+  }
+};
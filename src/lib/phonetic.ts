@@ -0,0 +1,53 @@
+// Indonesian phonetic key for matching misspellings that sound alike
+export type PhoneticIndex = Map<string, string[]>;
+
+// Letter groups written differently for the same Indonesian sound, applied in order
+const soundRules: [RegExp, string][] = [
+  [/dj/g, 'j'],       // old spelling: djalan -> jalan
+  [/tj/g, 'c'],       // old spelling: tjinta -> cinta
+  [/oe/g, 'u'],       // old spelling: oemoer -> umur
+  [/kh/g, 'k'],       // akhir / akir
+  [/sy/g, 's'],       // syarat / sarat
+  [/ph/g, 'f'],       // phisik / fisik
+  [/th/g, 't'],       // thema / tema
+  [/dz/g, 'z'],       // dzikir / zikir
+  [/ps/g, 's'],       // psikologi / sikologi
+  [/kw/g, 'ku'],      // kwalitas / kualitas
+  [/q/g, 'k'],        // quran / kuran
+  [/x/g, 'ks'],       // xenon / ksenon
+  [/[fv]/g, 'p'],     // fikir / pikir, provinsi / propinsi
+  [/z/g, 'j'],        // zaman / jaman
+  [/(?<!^)h/g, ''],   // lihat / liat, sudah / suda
+];
+
+// Encode a word by how it sounds, so "fikir" and "pikir" share a key
+export const indonesianPhoneticKey = (word: string): string => {
+  // Accented letters keep their base letter ("café" -> "cafe")
+  let key = word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^a-z]/g, '');
+  soundRules.forEach(([pattern, replacement]) => {
+    key = key.replace(pattern, replacement);
+  });
+  // Doubled letters sound like single ones (effektif / efektif)
+  return key.replace(/(.)\1+/g, '$1');
+};
+
+// Group words by phonetic key
+export const buildPhoneticIndex = (words: Iterable<string>): PhoneticIndex => {
+  const index: PhoneticIndex = new Map();
+
+  for (const word of words) {
+    if (word.length < 3 || word.includes(' ')) continue;
+    const key = indonesianPhoneticKey(word);
+    const group = index.get(key) || [];
+    group.push(word);
+    index.set(key, group);
+  }
+
+  return index;
+};
+
+// Find words that sound like the given word
+export const findPhoneticMatches = (index: PhoneticIndex, word: string): string[] => {
+  if (word.length < 3) return [];
+  return (index.get(indonesianPhoneticKey(word)) || []).filter(match => match !== word.toLowerCase());
+};
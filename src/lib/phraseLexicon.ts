@@ -0,0 +1,163 @@
+// Multi-word expressions, compounds and idioms (peribahasa) from KBBI
+import { levenshteinDistance } from '@/lib/fuzzyIndex';
+import type { Token } from '@/lib/tokenizer';
+
+export interface PhraseLexicon {
+  // Phrase variants indexed by their first word
+  byFirstWord: Map<string, string[][]>;
+  size: number;
+}
+
+export interface PhraseMatch {
+  phrase: string;
+  start: number;
+  end: number;
+  exact: boolean;
+  // The written form, only set for near matches
+  text?: string;
+}
+
+interface WordSpan {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Abbreviations used inside KBBI entries
+const entryAbbreviations: Record<string, string> = {
+  'spt': 'seperti',
+  'sbg': 'sebagai',
+  'dng': 'dengan',
+  'krn': 'karena',
+  'dr': 'dari',
+  'yg': 'yang',
+  'pd': 'pada',
+  'kpd': 'kepada',
+  'thd': 'terhadap',
+  'tt': 'tentang',
+  'dl': 'dalam',
+};
+
+// Near matches are only reported for idioms of at least this many words,
+// so that at least three words always match exactly
+const MIN_FUZZY_PHRASE_LENGTH = 4;
+const MAX_WORD_DISTANCE = 2;
+
+const splitWords = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z]+(?:-[a-z]+)*/g) || [];
+
+const expandAbbreviations = (words: string[]): string[] =>
+  words.map(word => entryAbbreviations[word] || word);
+
+// Expand one KBBI entry into the phrases it stands for. Parenthesized parts
+// are optional words ("(spt) pinang dibelah dua"), optional affixes
+// ("(ter)tungkus lumus") or alternatives, so both the entry without them and
+// the entry with them unwrapped are kept.
+export const parsePhraseEntry = (entry: string): string[][] => {
+  const withoutOptional = entry.replace(/\([^)]*\)/g, ' ');
+  const unwrapped = entry.replace(/[()]/g, '');
+
+  const variants = [withoutOptional, unwrapped]
+    .map(variant => expandAbbreviations(splitWords(variant)))
+    .filter(words => words.length >= 2);
+
+  const unique = new Map(variants.map(words => [words.join(' '), words]));
+  return [...unique.values()];
+};
+
+// Build the phrase lexicon from raw KBBI lines, keeping only multi-word entries
+export const buildPhraseLexicon = (entries: string[]): PhraseLexicon => {
+  const byFirstWord = new Map<string, string[][]>();
+  let size = 0;
+
+  entries.forEach(entry => {
+    if (!entry.includes(' ') || entry.startsWith('-')) return;
+
+    parsePhraseEntry(entry).forEach(words => {
+      const phrases = byFirstWord.get(words[0]) || [];
+      phrases.push(words);
+      byFirstWord.set(words[0], phrases);
+      size++;
+    });
+  });
+
+  return { byFirstWord, size };
+};
+
+// Compare the written words with a phrase. Returns the number of written
+// words consumed, or null if they differ by more than one misspelled or
+// missing word (or by anything at all when fuzzy matching is off).
+const matchPhrase = (words: WordSpan[], from: number, phrase: string[], fuzzy: boolean): { length: number; exact: boolean } | null => {
+  let edits = 0;
+  let offset = 0;
+
+  for (let i = 0; i < phrase.length; i++) {
+    const written = words[from + i - offset];
+    if (written && written.word === phrase[i]) continue;
+    if (!fuzzy || edits > 0 || i === 0) return null;
+    edits++;
+
+    if (
+      written &&
+      written.word.length >= 3 &&
+      levenshteinDistance(written.word, phrase[i]) <= MAX_WORD_DISTANCE
+    ) {
+      continue;
+    }
+    // Treat the phrase word as omitted from the text. A missing last word
+    // is not accepted, since any phrase that merely starts like an idiom
+    // ("tidak tahu di mana") would match.
+    if (i === phrase.length - 1) return null;
+    offset++;
+  }
+
+  return { length: phrase.length - offset, exact: edits === 0 };
+};
+
+// Find known phrases in the text. Exact matches mark compounds and idioms as
+// valid units; near matches point at a misspelled or incomplete idiom.
+export const findPhrases = (text: string, tokens: Token[], lexicon: PhraseLexicon): PhraseMatch[] => {
+  const matches: PhraseMatch[] = [];
+  if (lexicon.size === 0) return matches;
+
+  const words: WordSpan[] = tokens
+    .filter(token => token.kind === 'word')
+    .map(token => ({ word: token.text.toLowerCase(), start: token.start, end: token.end }));
+
+  let i = 0;
+  while (i < words.length) {
+    const phrases = lexicon.byFirstWord.get(words[i].word) || [];
+    let best: { phrase: string[]; length: number; exact: boolean } | null = null;
+
+    for (const phrase of phrases) {
+      const fuzzy = phrase.length >= MIN_FUZZY_PHRASE_LENGTH;
+      const result = matchPhrase(words, i, phrase, fuzzy);
+      if (!result) continue;
+      // Prefer exact matches, then the longest phrase
+      if (
+        !best ||
+        (result.exact && !best.exact) ||
+        (result.exact === best.exact && phrase.length > best.phrase.length)
+      ) {
+        best = { phrase, ...result };
+      }
+    }
+
+    if (best) {
+      const start = words[i].start;
+      const end = words[i + best.length - 1].end;
+      matches.push({
+        phrase: best.phrase.join(' '),
+        start,
+        end,
+        exact: best.exact,
+        ...(best.exact ? {} : { text: text.slice(start, end) }),
+      });
+      i += best.length;
+    } else {
+      i++;
+    }
+  }
+
+  return matches;
+};
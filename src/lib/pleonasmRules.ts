@@ -0,0 +1,239 @@
+// Pleonasm and redundancy rules (kalimat tidak efektif)
+import type { GrammarRule, RuleContext, RuleFinding } from '@/lib/ruleRegistry';
+import { isSeparatedBySpace, type Token } from '@/lib/tokenizer';
+import { matchCase } from '@/lib/letterCase';
+
+// Word pairs with the same meaning, of which one is enough
+const redundantPairs: [string, string][] = [
+  ['adalah', 'merupakan'],
+  ['demi', 'untuk'],
+  ['agar', 'supaya'],
+  ['supaya', 'agar'],
+  ['sejak', 'dari'],
+  ['seperti', 'misalnya'],
+  ['misalnya', 'seperti'],
+  ['contohnya', 'seperti'],
+  ['hanya', 'cuma'],
+];
+
+// Movements whose direction is already in the verb ("naik ke atas")
+const directionVerbs: Record<string, string> = {
+  'naik': 'atas',
+  'turun': 'bawah',
+  'mundur': 'belakang',
+  'maju': 'depan',
+  'masuk': 'dalam',
+};
+
+// Words that already mark a plural, so the noun is not reduplicated
+const pluralMarkers = new Set(['para', 'banyak', 'beberapa', 'sejumlah', 'aneka']);
+
+// Intensifiers that are not combined with "sekali" ("sangat indah sekali")
+const intensifiers = new Set(['sangat', 'amat']);
+
+// Words an intensifier may be separated from "sekali" by
+const MAX_INTENSIFIED_WORDS = 2;
+
+const lower = (token: Token | undefined): string => token?.kind === 'word' ? token.text.toLowerCase() : '';
+
+// The words of a sentence that follow each other with only a space between
+const isNextWord = (text: string, previous: Token | undefined, next: Token | undefined): next is Token =>
+  !!previous && next?.kind === 'word' && isSeparatedBySpace(text, previous, next);
+
+const grammarFinding = (
+  text: string,
+  start: number,
+  end: number,
+  message: string,
+  replacements: string[],
+  confidence: number,
+): RuleFinding => ({
+  type: 'grammar',
+  text: text.slice(start, end),
+  message,
+  shortMessage: 'Pleonasme',
+  replacements,
+  confidence,
+  start,
+  end,
+});
+
+// "adalah merupakan" -> "adalah" or "merupakan"
+const checkRedundantPairs = ({ text, sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(({ tokens }) => {
+    tokens.forEach((token, index) => {
+      const next = tokens[index + 1];
+      const pair = redundantPairs.find(([first, second]) => lower(token) === first && lower(next) === second);
+      if (!pair || !isNextWord(text, token, next)) return;
+
+      errors.push(grammarFinding(
+        text,
+        token.start,
+        next.end,
+        `"${pair[0]}" dan "${pair[1]}" bermakna sama. Gunakan salah satu saja`,
+        [matchCase(token.text, pair[0]), matchCase(token.text, pair[1])],
+        0.85,
+      ));
+    });
+  });
+
+  return errors;
+};
+
+// "naik ke atas" -> "naik"; "naik ke atas panggung" -> "naik ke panggung"
+const checkRedundantDirection = ({ text, sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(({ tokens }) => {
+    tokens.forEach((token, index) => {
+      const direction = directionVerbs[lower(token)];
+      const [particle, place, following] = tokens.slice(index + 1, index + 4);
+      if (
+        !direction || lower(particle) !== 'ke' || lower(place) !== direction ||
+        !isNextWord(text, token, particle) || !isNextWord(text, particle, place)
+      ) return;
+
+      // With a place after it, "ke atas" names a location ("ke atas meja");
+      // other words start the next phrase ("naik ke atas lalu pergi")
+      const hasPlace = isNextWord(text, place, following) && (following.tag === 'NOUN' || following.tag === 'PROPN');
+      errors.push(grammarFinding(
+        text,
+        token.start,
+        place.end,
+        hasPlace
+          ? `Kata "${token.text}" sudah menyatakan arah. Cukup tulis "${token.text} ke ${following.text}"`
+          : `Kata "${token.text}" sudah menyatakan arah "ke ${direction}". Cukup tulis "${token.text}"`,
+        [hasPlace ? `${token.text} ke` : token.text],
+        hasPlace ? 0.5 : 0.8,
+      ));
+    });
+  });
+
+  return errors;
+};
+
+// "sangat indah sekali" -> "sangat indah" or "indah sekali"
+const checkRedundantIntensifier = ({ text, sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(({ tokens }) => {
+    tokens.forEach((token, index) => {
+      if (!intensifiers.has(lower(token))) return;
+
+      let last = index;
+      while (last - index <= MAX_INTENSIFIED_WORDS && isNextWord(text, tokens[last], tokens[last + 1])) {
+        last++;
+        if (lower(tokens[last]) === 'sekali' && last > index + 1) {
+          const start = token.start;
+          const end = tokens[last].end;
+          const modified = text.slice(tokens[index + 1].start, tokens[last - 1].end);
+          errors.push(grammarFinding(
+            text,
+            start,
+            end,
+            `"${token.text}" dan "sekali" tidak dipakai bersamaan. Gunakan salah satu saja`,
+            [`${token.text} ${modified}`, matchCase(token.text, `${modified} sekali`)],
+            0.9,
+          ));
+          return;
+        }
+      }
+    });
+  });
+
+  return errors;
+};
+
+// "para hadirin-hadirin" -> "para hadirin"
+const checkRedundantPlural = ({ text, sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(({ tokens }) => {
+    tokens.forEach((token, index) => {
+      const next = tokens[index + 1];
+      if (!pluralMarkers.has(lower(token)) || !isNextWord(text, token, next)) return;
+
+      const reduplication = next.text.match(/^(\p{L}+)-(\p{L}+)$/u);
+      if (!reduplication || reduplication[1].toLowerCase() !== reduplication[2].toLowerCase()) return;
+
+      const correct = `${token.text} ${reduplication[1]}`;
+      errors.push(grammarFinding(
+        text,
+        token.start,
+        next.end,
+        `Kata "${token.text}" sudah menyatakan jamak, jadi kata bendanya tidak diulang: "${correct}"`,
+        [correct],
+        0.9,
+      ));
+    });
+  });
+
+  return errors;
+};
+
+// "saling pukul-memukul" -> "saling memukul" or "pukul-memukul"
+const checkRedundantReciprocal = ({ text, sentences }: RuleContext): RuleFinding[] => {
+  const errors: RuleFinding[] = [];
+
+  sentences.forEach(({ tokens }) => {
+    tokens.forEach((token, index) => {
+      const next = tokens[index + 1];
+      if (lower(token) !== 'saling' || !isNextWord(text, token, next)) return;
+
+      // A root repeated with meN-: pukul-memukul, tolong-menolong, bantu-membantu
+      const reciprocal = next.text.match(/^(\p{L}+)-(me\p{L}+)$/u);
+      if (!reciprocal || reciprocal[2].slice(-3).toLowerCase() !== reciprocal[1].slice(-3).toLowerCase()) return;
+
+      errors.push(grammarFinding(
+        text,
+        token.start,
+        next.end,
+        `Kata "saling" dan bentuk ulang "${next.text}" sama-sama menyatakan berbalasan. Gunakan salah satu saja`,
+        [`${token.text} ${reciprocal[2]}`, matchCase(token.text, next.text)],
+        0.85,
+      ));
+    });
+  });
+
+  return errors;
+};
+
+export const pleonasmRules: GrammarRule[] = [
+  {
+    id: 'redundant-words',
+    description: 'Dua kata bermakna sama yang dipakai bersamaan (adalah merupakan, demi untuk, agar supaya)',
+    category: 'grammar',
+    severity: 'warning',
+    check: checkRedundantPairs,
+  },
+  {
+    id: 'redundant-direction',
+    description: 'Kata kerja yang sudah menyatakan arah (naik ke atas, mundur ke belakang)',
+    category: 'grammar',
+    severity: 'warning',
+    check: checkRedundantDirection,
+  },
+  {
+    id: 'redundant-intensifier',
+    description: 'Kata "sangat" atau "amat" bersama "sekali"',
+    category: 'grammar',
+    severity: 'warning',
+    check: checkRedundantIntensifier,
+  },
+  {
+    id: 'redundant-plural',
+    description: 'Penanda jamak dengan kata benda ulang (para hadirin-hadirin)',
+    category: 'grammar',
+    severity: 'warning',
+    check: checkRedundantPlural,
+  },
+  {
+    id: 'redundant-reciprocal',
+    description: 'Kata "saling" dengan bentuk ulang berbalasan (saling pukul-memukul)',
+    category: 'grammar',
+    severity: 'warning',
+    check: checkRedundantReciprocal,
+  },
+];
@@ -0,0 +1,141 @@
+// Rule-based part-of-speech tagger: a lexicon of closed word classes, affix
+// heuristics for open classes, and a few contextual corrections
+import type { AffixAnalyzer } from '@/lib/morphology';
+import type { Token } from '@/lib/tokenizer';
+
+// Universal Dependencies tags
+export type PosTag =
+  | 'NOUN' | 'PROPN' | 'PRON' | 'VERB' | 'AUX' | 'ADJ' | 'ADV' | 'ADP'
+  | 'CCONJ' | 'SCONJ' | 'DET' | 'NUM' | 'PART' | 'PUNCT' | 'SYM' | 'X';
+
+// Closed word classes and common base words that affixes do not reveal
+const lexicon: Record<string, PosTag> = {};
+const addWords = (tag: PosTag, words: string[]) => words.forEach(word => { lexicon[word] = tag; });
+
+addWords('PRON', [
+  'saya', 'aku', 'kami', 'kita', 'engkau', 'kau', 'kamu', 'anda', 'kalian', 'dia', 'ia',
+  'beliau', 'mereka', 'sesuatu', 'seseorang', 'apa', 'siapa', 'mana', 'sini', 'sana', 'situ',
+]);
+addWords('ADP', [
+  'di', 'ke', 'dari', 'pada', 'kepada', 'daripada', 'dalam', 'bagi', 'untuk', 'oleh',
+  'dengan', 'tentang', 'mengenai', 'terhadap', 'menurut', 'sejak', 'hingga', 'sampai',
+  'antara', 'tanpa', 'seperti', 'sebagai', 'melalui', 'berdasarkan', 'demi', 'per', 'selama',
+]);
+addWords('CCONJ', ['dan', 'atau', 'tetapi', 'tapi', 'serta', 'melainkan', 'sedangkan', 'maupun', 'lalu', 'kemudian', 'namun']);
+addWords('SCONJ', [
+  'yang', 'bahwa', 'karena', 'sebab', 'jika', 'kalau', 'apabila', 'bila', 'meskipun',
+  'walaupun', 'agar', 'supaya', 'ketika', 'sewaktu', 'setelah', 'sesudah', 'sebelum',
+  'sehingga', 'seandainya', 'andaikan', 'padahal', 'seolah',
+]);
+addWords('DET', ['ini', 'itu', 'tersebut', 'para', 'sang', 'si', 'setiap', 'tiap', 'semua', 'segala', 'seluruh', 'beberapa', 'sejumlah', 'berbagai']);
+addWords('AUX', [
+  'harus', 'wajib', 'perlu', 'dapat', 'bisa', 'boleh', 'mampu', 'mesti', 'mau', 'ingin', 'akan',
+  'sudah', 'telah', 'sedang', 'masih', 'belum', 'pernah', 'adalah', 'ialah', 'merupakan',
+]);
+addWords('ADV', [
+  'sangat', 'amat', 'sekali', 'paling', 'lebih', 'kurang', 'agak', 'cukup', 'terlalu',
+  'hanya', 'juga', 'pun', 'saja', 'lagi', 'segera', 'selalu', 'sering', 'jarang', 'kadang',
+  'mungkin', 'tentu', 'pasti', 'barangkali', 'hampir', 'kemarin', 'besok', 'sekarang',
+  'kini', 'nanti', 'tadi', 'dulu',
+]);
+addWords('PART', ['tidak', 'tak', 'bukan', 'jangan', 'lah', 'kah', 'tah', 'dong', 'kok', 'pula']);
+addWords('NUM', [
+  'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan', 'sembilan',
+  'sepuluh', 'sebelas', 'seratus', 'seribu', 'belas', 'puluh', 'ratus', 'ribu', 'juta',
+  'miliar', 'triliun', 'banyak', 'sedikit',
+]);
+addWords('ADJ', [
+  'besar', 'kecil', 'baik', 'buruk', 'baru', 'lama', 'panjang', 'pendek', 'tinggi', 'rendah',
+  'penting', 'mudah', 'sulit', 'susah', 'senang', 'sedih', 'indah', 'cantik', 'bagus', 'jelek',
+  'cepat', 'lambat', 'kuat', 'lemah', 'kaya', 'miskin', 'benar', 'salah', 'sehat', 'sakit',
+  'jauh', 'dekat', 'luas', 'sempit', 'mahal', 'murah', 'bersih', 'kotor', 'panas', 'dingin',
+  'muda', 'tua', 'rajin', 'malas', 'pintar', 'bodoh', 'jujur', 'ramah', 'lelah', 'lapar',
+]);
+addWords('VERB', [
+  'pergi', 'datang', 'pulang', 'tiba', 'makan', 'minum', 'tidur', 'duduk', 'lahir', 'mati',
+  'tinggal', 'masuk', 'keluar', 'naik', 'turun', 'hadir', 'ada', 'punya', 'suka', 'tahu',
+  'lari', 'mandi', 'hidup', 'bangun', 'kembali', 'jatuh', 'hilang', 'muncul', 'tumbuh',
+]);
+
+// Words after which the next word modifies a noun or is an adjective
+const degreeAdverbs = new Set(['sangat', 'amat', 'paling', 'lebih', 'kurang', 'agak', 'cukup', 'terlalu']);
+
+// The tag of a word from its affixes: meN-, di-, ber- and ter- make verbs,
+// peN-, per-an, ke-an and -an make nouns
+const tagFromAffixes = (word: string, analyze: AffixAnalyzer): PosTag | null => {
+  const analysis = analyze(word);
+  if (!analysis) return null;
+
+  // The lexicon lists derived words, so "mengatakan" may stop at
+  // "mengatak" + -an; the prefix is then found in the root
+  const rootAnalysis = analysis.prefixes.length === 0 && analysis.root !== word ? analyze(analysis.root) : null;
+  const [prefix] = rootAnalysis?.prefixes.length ? rootAnalysis.prefixes : analysis.prefixes;
+  // "terbaik" is the superlative of an adjective
+  if (prefix === 'ter-' && lexicon[analysis.root] === 'ADJ') return 'ADJ';
+  if (prefix === 'meN-' || prefix === 'di-' || prefix === 'ber-' || prefix === 'ter-') return 'VERB';
+  if (prefix === 'peN-' || prefix === 'per-' || prefix === 'ke-' || analysis.suffixes.includes('an')) return 'NOUN';
+  return null;
+};
+
+// Tag one word without looking at its neighbors
+const tagWord = (token: Token, isSentenceStart: boolean, analyze: AffixAnalyzer): PosTag => {
+  const word = token.text.toLowerCase();
+  // Reduplication takes the class of its base ("anak-anak", "berlari-lari")
+  const base = word.includes('-') ? word.split('-')[0] : word;
+
+  if (lexicon[word]) return lexicon[word];
+  if (/^\p{Lu}/u.test(token.text) && !isSentenceStart) return 'PROPN';
+  if (lexicon[base]) return lexicon[base];
+  // Possessive and particle endings do not change the class ("bukunya")
+  const withoutClitic = base.replace(/(?:nya|ku|mu|lah|kah)$/, '');
+  if (withoutClitic !== base && lexicon[withoutClitic]) return lexicon[withoutClitic];
+
+  return tagFromAffixes(base, analyze) ?? 'NOUN';
+};
+
+const tagOtherToken = (token: Token): PosTag => {
+  switch (token.kind) {
+    case 'number': return 'NUM';
+    case 'punctuation': return 'PUNCT';
+    case 'symbol': return 'SYM';
+    default: return 'X';
+  }
+};
+
+// Tag every token. Returns new tokens with a tag; the input is not changed.
+export const tagTokens = (tokens: Token[], analyze: AffixAnalyzer): Token[] => {
+  const tagged = tokens.map((token, index) => {
+    if (token.kind !== 'word') return { ...token, tag: tagOtherToken(token) };
+
+    const previous = tokens[index - 1];
+    const isSentenceStart = !previous || /^(?:[.!?"“'‘(]|\.{3}|…)$/.test(previous.text);
+    return { ...token, tag: tagWord(token, isSentenceStart, analyze) };
+  });
+
+  // Contextual corrections, left to right
+  tagged.forEach((token, index) => {
+    if (token.kind !== 'word') return;
+    const previous = tagged[index - 1];
+    const word = token.text.toLowerCase();
+
+    // "sangat indah": a word after a degree adverb is an adjective
+    if (previous && degreeAdverbs.has(previous.text.toLowerCase()) && token.tag === 'NOUN') {
+      token.tag = 'ADJ';
+    }
+    // "harus pergi": an unknown word after a modal is a verb
+    if (previous?.tag === 'AUX' && token.tag === 'NOUN' && !['adalah', 'ialah', 'merupakan'].includes(previous.text.toLowerCase())) {
+      token.tag = 'VERB';
+    }
+    // "rajin dan cerdas": words joined by a conjunction share a class
+    const beforeConjunction = tagged[index - 2];
+    if (previous?.tag === 'CCONJ' && beforeConjunction?.tag === 'ADJ' && token.tag === 'NOUN') {
+      token.tag = 'ADJ';
+    }
+    // "baik" opening a clause pairs with "maupun" ("baik guru maupun murid")
+    if (word === 'baik' && (!previous || previous.tag === 'PUNCT') && tagged[index + 1]?.kind === 'word') {
+      token.tag = 'CCONJ';
+    }
+  });
+
+  return tagged;
+};
@@ -0,0 +1,80 @@
+// Registry of the rules run by checkGrammar
+import type { CheckOptions, DocumentMargins, GrammarError } from '@/lib/grammarChecker';
+import type { Token } from '@/lib/tokenizer';
+import type { Sentence } from '@/lib/sentenceSegmenter';
+
+export type RuleCategory = 'spelling' | 'word-formation' | 'punctuation' | 'capitalization' | 'grammar' | 'style' | 'number' | 'format';
+
+export type RuleSeverity = 'error' | 'warning' | 'hint';
+
+// Everything a rule may look at, computed once per check
+export interface RuleContext {
+  text: string;
+  tokens: Token[];
+  sentences: Sentence[];
+  margins?: DocumentMargins;
+  options: CheckOptions;
+}
+
+// A finding as reported by a rule, before the registry tags it with the rule
+// ID. Severity defaults to the rule's severity and confidence to 1.
+export type RuleFinding = Omit<GrammarError, 'ruleId' | 'severity' | 'confidence'> &
+  Partial<Pick<GrammarError, 'severity' | 'confidence'>>;
+
+export interface GrammarRule {
+  id: string;
+  description: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  check: (context: RuleContext) => RuleFinding[];
+}
+
+// Rules in registration order, which is also the order they run in. When two
+// rules report the same span, the finding of the earlier rule is kept.
+const rules = new Map<string, GrammarRule>();
+
+// Add a rule, or replace the rule registered under the same ID. A new rule
+// runs last unless it should run before an already registered rule.
+export const registerRule = (rule: GrammarRule, options: { before?: string } = {}): void => {
+  if (!options.before || !rules.has(options.before) || rules.has(rule.id)) {
+    rules.set(rule.id, rule);
+    return;
+  }
+
+  const ordered = [...rules.values()];
+  rules.clear();
+  ordered.forEach(existing => {
+    if (existing.id === options.before) rules.set(rule.id, rule);
+    rules.set(existing.id, existing);
+  });
+};
+
+export const unregisterRule = (id: string): void => {
+  rules.delete(id);
+};
+
+export const getRule = (id: string): GrammarRule | undefined => rules.get(id);
+
+export const getRules = (): GrammarRule[] => [...rules.values()];
+
+// Run every enabled rule. A failing rule is logged and skipped so it cannot
+// break the whole check.
+export const runRules = (context: RuleContext, disabledRules: string[] = []): GrammarError[] => {
+  const findings: GrammarError[] = [];
+
+  rules.forEach(rule => {
+    if (disabledRules.includes(rule.id)) return;
+    try {
+      rule.check(context).forEach(finding => findings.push({
+        severity: rule.severity,
+        confidence: 1,
+        ...finding,
+        ruleId: rule.id,
+      }));
+    } catch (error) {
+      console.error(`Error running rule ${rule.id}:`, error);
+    }
+  });
+
+  return findings;
+};
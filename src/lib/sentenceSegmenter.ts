@@ -0,0 +1,136 @@
+// Sentence boundary detection for Indonesian text
+import { tokenize, type Token } from '@/lib/tokenizer';
+
+export interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+  tokens: Token[];
+}
+
+// Abbreviations written with a period that never end a sentence on their own
+export const titleAbbreviations = new Set([
+  'dr', 'drs', 'dra', 'ir', 'prof', 'h', 'hj', 'sdr', 'sdri', 'bpk', 'yth',
+  'moh', 'muh', 'ny', 'nn', 'tn', 'kol', 'jend', 'letjen', 'mayjen', 'brigjen', 'kapt',
+  'no', 'hlm', 'hal', 'jl', 'jln', 'gg', 'kab', 'kec', 'kel', 'prov', 'tel',
+  'telp', 'tgl', 'thn', 'nip', 'nim', 'vol', 'cet', 'ed', 'ref', 'bab', 'rp',
+  'a.n', 'u.p', 'd.a', 's.d', 'u.b', 'ybs', 'ttd',
+  's.pd', 's.h', 's.e', 's.t', 's.si', 's.kom', 's.sos', 's.ked',
+  'm.pd', 'm.si', 'm.m', 'm.h', 'm.t', 'm.kom', 'ph.d', 'sp.a', 'sp.b',
+]);
+
+// Abbreviations that may also close a sentence ("apel, jeruk, dll. Semua...")
+const listAbbreviations = new Set(['dll', 'dsb', 'dst', 'dkk', 'sda', 'dsj']);
+
+// Conjunctions and function words that open sentences, so a single capital
+// letter before them is not an initial ("antara A dengan B. Tetapi ...")
+const sentenceOpeners = new Set([
+  'tetapi', 'tapi', 'namun', 'dan', 'atau', 'lalu', 'kemudian', 'sedangkan',
+  'sehingga', 'karena', 'jadi', 'maka', 'oleh', 'selain', 'akan', 'meskipun',
+  'walaupun', 'jika', 'kalau', 'apabila', 'setelah', 'sebelum', 'ketika',
+  'di', 'ke', 'dari', 'pada', 'dalam', 'untuk', 'bagi', 'dengan', 'menurut',
+  'ini', 'itu', 'hal', 'ada', 'saya', 'aku', 'kami', 'kita', 'kamu', 'anda',
+  'dia', 'ia', 'mereka', 'beliau', 'yang', 'apa', 'siapa', 'mengapa',
+  'bagaimana', 'kapan', 'semua', 'setiap', 'para',
+]);
+
+const isTerminator = (token: Token): boolean =>
+  token.kind === 'punctuation' && /^(?:[.!?]|\.{3}|…)$/.test(token.text);
+
+const isClosingMark = (token: Token): boolean =>
+  token.kind === 'punctuation' && /^["'”’»)\]}]$/.test(token.text);
+
+// The text of the abbreviation right before a period, including inner
+// periods ("a.n" in "a.n."), or null if the period follows something else
+const abbreviationBefore = (tokens: Token[], index: number): string | null => {
+  let first = index;
+  while (
+    first > 0 &&
+    tokens[first - 1].end === tokens[first].start &&
+    (tokens[first - 1].kind === 'word' || tokens[first - 1].text === '.')
+  ) {
+    first--;
+  }
+  if (first === index || tokens[first].kind !== 'word') return null;
+
+  return tokens.slice(first, index).map(token => token.text).join('').toLowerCase();
+};
+
+// First token after the given one that is not punctuation
+const nextWord = (tokens: Token[], index: number): Token | undefined =>
+  tokens.slice(index + 1).find(token => token.kind !== 'punctuation');
+
+const startsWithCapital = (token: Token | undefined): boolean =>
+  !!token && token.kind === 'word' && token.text.charAt(0) !== token.text.charAt(0).toLowerCase();
+
+// Decide whether a terminator token really ends the sentence
+const endsSentence = (tokens: Token[], index: number): boolean => {
+  const token = tokens[index];
+  const following = nextWord(tokens, index);
+
+  // Ellipses only end a sentence when a new one clearly begins ("..." Lalu)
+  if (token.text !== '.' && token.text !== '!' && token.text !== '?') return startsWithCapital(following);
+
+  if (token.text === '.') {
+    // Periods inside a token run (a.n, S.Pd) never end a sentence
+    const afterPeriod = tokens[index + 1];
+    if (afterPeriod && afterPeriod.kind === 'word' && afterPeriod.start === token.end) return false;
+
+    const abbreviation = abbreviationBefore(tokens, index);
+    if (abbreviation) {
+      if (titleAbbreviations.has(abbreviation)) return false;
+      if (listAbbreviations.has(abbreviation)) return startsWithCapital(following);
+      // Initials in names (B.J. Habibie, A. B. Susilo). A single letter is
+      // only an initial before another name, not before a sentence opener.
+      if (/^(?:[a-z]\.)+[a-z]$/.test(abbreviation) && /^[A-Z]/.test(tokens[index - 1].text)) return false;
+      if (
+        /^[a-z]$/.test(abbreviation) && /^[A-Z]/.test(tokens[index - 1].text) &&
+        startsWithCapital(following) && !sentenceOpeners.has(following?.text.toLowerCase() ?? '')
+      ) return false;
+    }
+  }
+
+  // A dialogue tag after a quoted sentence continues it ("Pergi!" katanya)
+  const afterTerminator = tokens[index + 1];
+  if (afterTerminator && isClosingMark(afterTerminator) && afterTerminator.start === token.end) {
+    return !following || startsWithCapital(following) || following.kind !== 'word';
+  }
+
+  return true;
+};
+
+// Check if the gap between two tokens contains an empty line (a paragraph break)
+const isParagraphBreak = (text: string, previous: Token, next: Token): boolean =>
+  /\n\s*\n/.test(text.slice(previous.end, next.start));
+
+// Split text into sentences. Each sentence includes its final punctuation
+// and any closing quotes or brackets attached to it; paragraph breaks also
+// end a sentence.
+export const splitSentences = (text: string, tokens: Token[] = tokenize(text)): Sentence[] => {
+  const sentences: Sentence[] = [];
+  let first = 0;
+
+  const close = (last: number) => {
+    if (last < first) return;
+    const start = tokens[first].start;
+    const end = tokens[last].end;
+    sentences.push({ text: text.slice(start, end), start, end, tokens: tokens.slice(first, last + 1) });
+    first = last + 1;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (isTerminator(tokens[i]) && endsSentence(tokens, i)) {
+      let last = i;
+      while (tokens[last + 1] && (isClosingMark(tokens[last + 1]) || isTerminator(tokens[last + 1])) && tokens[last + 1].start === tokens[last].end) {
+        last++;
+      }
+      close(last);
+      i = last;
+    } else if (tokens[i + 1] && isParagraphBreak(text, tokens[i], tokens[i + 1])) {
+      close(i);
+    }
+  }
+  close(tokens.length - 1);
+
+  return sentences;
+};
@@ -0,0 +1,200 @@
+// Shallow sentence structure rules (SPOK): sentences without a main clause,
+// sentences without a subject, and di- passives with a first- or
+// second-person agent
+import type { AffixAnalyzer } from '@/lib/morphology';
+import type { GrammarRule, RuleContext, RuleFinding } from '@/lib/ruleRegistry';
+import type { Sentence } from '@/lib/sentenceSegmenter';
+import type { Token } from '@/lib/tokenizer';
+import { capitalize, matchCase } from '@/lib/letterCase';
+
+// Subordinating conjunctions that open a clause which cannot stand alone
+const subordinators = new Set([
+  'karena', 'sebab', 'jika', 'kalau', 'apabila', 'bila', 'meskipun', 'walaupun',
+  'agar', 'supaya', 'ketika', 'sewaktu', 'setelah', 'sesudah', 'sebelum',
+  'seandainya', 'andaikan', 'untuk',
+]);
+
+// Prepositions that turn the noun after them into an adverbial, not a subject
+const prepositions = new Set([
+  'di', 'dalam', 'pada', 'bagi', 'untuk', 'kepada', 'menurut', 'dengan',
+  'berdasarkan', 'melalui', 'dari', 'tentang', 'mengenai', 'terhadap',
+]);
+
+// Second words of compound prepositions ("di dalam", "di antara")
+const prepositionParts = new Set(['dalam', 'antara', 'atas', 'bawah', 'luar', 'samping']);
+
+// Demonstratives close a noun phrase ("buku ini")
+const demonstratives = new Set(['ini', 'itu', 'tersebut']);
+
+// Modals and aspect markers that start a predicate
+const modals = new Set([
+  'harus', 'wajib', 'perlu', 'dapat', 'bisa', 'akan', 'sudah', 'telah',
+  'sedang', 'mampu', 'boleh', 'mesti',
+]);
+
+// Pronouns that may be an agent written before the verb ("saya baca"),
+// with the proclitic form where there is one ("kubaca")
+const personalAgents: Record<string, string | null> = {
+  'saya': null,
+  'aku': 'ku',
+  'kami': null,
+  'kita': null,
+  'engkau': 'kau',
+  'kau': 'kau',
+  'kamu': null,
+  'anda': null,
+  'kalian': null,
+};
+
+// Words that look like meN- verbs but are not ("mereka", "memang")
+const nonVerbs = new Set(['mereka', 'memang', 'meski', 'meskipun', 'menteri', 'media', 'mesin', 'merdeka']);
+
+// Noun phrases longer than this are not checked for a missing subject
+const MAX_ADVERBIAL_WORDS = 4;
+
+const lower = (token: Token | undefined): string => token?.kind === 'word' ? token.text.toLowerCase() : '';
+
+const isClauseBoundary = (token: Token): boolean => token.kind === 'punctuation' && /^[,;:]$/.test(token.text);
+
+const sentenceWords = (sentence: Sentence): Token[] => sentence.tokens.filter(token => token.kind === 'word');
+
+const endsAsStatement = (sentence: Sentence): boolean =>
+  /^[.!]$/.test(sentence.tokens[sentence.tokens.length - 1]?.text ?? '');
+
+export const createSentenceStructureRules = (analyze: AffixAnalyzer): GrammarRule[] => {
+  // Verbs written with meN- ("membahas", "mengatakan")
+  const isActiveVerb = (token: Token): boolean =>
+    token.tag === 'VERB' && lower(token).startsWith('me') && !nonVerbs.has(lower(token));
+
+  // "Karena hujan deras." - a subordinate clause without a main clause
+  const checkFragment = ({ sentences }: RuleContext): RuleFinding[] => {
+    const errors: RuleFinding[] = [];
+
+    sentences.forEach(sentence => {
+      const words = sentenceWords(sentence);
+      const first = words[0];
+      if (!first || !subordinators.has(lower(first)) || words.length < 3 || !endsAsStatement(sentence)) return;
+      // "Karena itu" and "Untuk itu" connect to the previous sentence
+      if (demonstratives.has(lower(words[1]))) return;
+      if (sentence.tokens.some(isClauseBoundary)) return;
+
+      errors.push({
+        type: 'grammar',
+        text: first.text,
+        message: `Kalimat yang diawali "${lower(first)}" ini hanya berupa anak kalimat dan tidak memiliki induk kalimat (predikat utama). Gabungkan dengan kalimat sebelumnya atau lengkapi induk kalimatnya, dan pisahkan anak kalimat dengan koma.`,
+        shortMessage: 'Kalimat tanpa predikat',
+        replacements: [],
+        confidence: 0.5,
+        start: first.start,
+        end: first.end,
+      });
+    });
+
+    return errors;
+  };
+
+  // "Di dalam buku ini membahas ..." - the preposition leaves the sentence
+  // without a subject for the active verb
+  const checkMissingSubject = ({ text, sentences }: RuleContext): RuleFinding[] => {
+    const errors: RuleFinding[] = [];
+
+    sentences.forEach(sentence => {
+      const { tokens } = sentence;
+      const firstIndex = tokens.findIndex(token => token.kind !== 'punctuation');
+      const preposition = tokens[firstIndex];
+      if (!preposition || !prepositions.has(lower(preposition))) return;
+
+      let nounStart = firstIndex + 1;
+      if (lower(preposition) === 'di' && prepositionParts.has(lower(tokens[nounStart]))) nounStart++;
+
+      // Walk the noun phrase up to the predicate
+      for (let i = nounStart; i < tokens.length && i - nounStart <= MAX_ADVERBIAL_WORDS; i++) {
+        const token = tokens[i];
+        if (token.kind !== 'word' || lower(token) === 'yang') return;
+
+        const isPredicate = i > nounStart && (isActiveVerb(token) || (modals.has(lower(token)) && !lower(tokens[i + 1]).startsWith('di')));
+        if (!isPredicate) {
+          // A pronoun or name is the subject ("Di kantor dia membaca")
+          if (i > nounStart && (token.tag === 'PRON' || token.tag === 'PROPN')) return;
+          // A word after a demonstrative is likely the subject ("Dalam rapat itu ketua membahas")
+          if (i > nounStart && demonstratives.has(lower(tokens[i - 1]))) return;
+          continue;
+        }
+
+        const nounStartToken = tokens[nounStart];
+        const written = text.slice(preposition.start, nounStartToken.end);
+        const prepositionText = text.slice(preposition.start, tokens[nounStart - 1].end);
+        const nounPhrase = text.slice(nounStartToken.start, tokens[i - 1].end);
+        errors.push({
+          type: 'grammar',
+          text: written,
+          message: `Kalimat ini tidak bersubjek: "${prepositionText}" menjadikan "${nounPhrase}" keterangan, padahal "${token.text}" memerlukan subjek. Hilangkan "${prepositionText}" atau ubah predikatnya menjadi bentuk pasif.`,
+          shortMessage: 'Kalimat tanpa subjek',
+          replacements: [capitalize(nounStartToken.text)],
+          confidence: 0.6,
+          start: preposition.start,
+          end: nounStartToken.end,
+        });
+        return;
+      }
+    });
+
+    return errors;
+  };
+
+  // "dibaca oleh saya" -> "saya baca": a first- or second-person agent
+  // comes before the verb without di-
+  const checkPassiveAgent = ({ text, sentences }: RuleContext): RuleFinding[] => {
+    const errors: RuleFinding[] = [];
+
+    sentences.forEach(({ tokens }) => {
+      tokens.forEach((token, index) => {
+        const [by, agent] = [tokens[index + 1], tokens[index + 2]];
+        const pronoun = lower(agent);
+        if (lower(by) !== 'oleh' || !(pronoun in personalAgents) || !lower(token).startsWith('di')) return;
+        if (analyze(lower(token))?.prefixes[0] !== 'di-') return;
+
+        const stem = token.text.slice(2);
+        const proclitic = personalAgents[pronoun];
+        const rewrite = proclitic ? `${proclitic}${stem}` : `${agent.text} ${stem}`;
+        const correct = matchCase(token.text, rewrite);
+        errors.push({
+          type: 'grammar',
+          text: text.slice(token.start, agent.end),
+          message: `Pelaku persona pertama atau kedua tidak dipakai dengan bentuk "di-". Letakkan pelaku di depan kata kerja tanpa awalan: "${correct}"`,
+          shortMessage: 'Pasif dengan pelaku persona',
+          replacements: [correct],
+          confidence: 0.85,
+          start: token.start,
+          end: agent.end,
+        });
+      });
+    });
+
+    return errors;
+  };
+
+  return [
+    {
+      id: 'sentence-fragment',
+      description: 'Kalimat yang hanya berupa anak kalimat tanpa predikat utama',
+      category: 'grammar',
+      severity: 'warning',
+      check: checkFragment,
+    },
+    {
+      id: 'missing-subject',
+      description: 'Kalimat tanpa subjek karena diawali kata depan (Di dalam buku ini membahas ...)',
+      category: 'grammar',
+      severity: 'warning',
+      check: checkMissingSubject,
+    },
+    {
+      id: 'passive-person-agent',
+      description: 'Bentuk "di-" dengan pelaku persona pertama atau kedua (dibaca oleh saya)',
+      category: 'grammar',
+      severity: 'error',
+      check: checkPassiveAgent,
+    },
+  ];
+};
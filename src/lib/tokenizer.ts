@@ -0,0 +1,69 @@
+// Tokenizer for Indonesian text with exact character offsets
+import type { PosTag } from '@/lib/posTagger';
+
+export type TokenKind = 'word' | 'number' | 'url' | 'email' | 'punctuation' | 'symbol';
+
+export interface Token {
+  text: string;
+  kind: TokenKind;
+  // Offsets into the original text (end is exclusive)
+  start: number;
+  end: number;
+  // Part of speech, set by the tagger before the rules run
+  tag?: PosTag;
+}
+
+// Top-level domains recognized in addresses written without "www." or a scheme
+const domainSuffixes = ['id', 'com', 'org', 'net', 'edu', 'gov', 'int', 'info', 'io', 'co', 'me'];
+
+// Token patterns, tried in order at each position. URLs and emails come
+// before words and numbers so their dots are not read as sentence ends.
+const tokenPatterns: [TokenKind, RegExp][] = [
+  // https://kemdikbud.go.id/berita, www.kemdikbud.go.id (trailing punctuation excluded)
+  ['url', /(?:https?:\/\/|www\.)[^\s<>"'()[\]{}]*[^\s<>"'()[\]{}.,;:!?]/uy],
+  // kemdikbud.go.id, kbbi.kemdikbud.go.id/entri
+  ['url', new RegExp(`[\\p{L}\\d-]+(?:\\.[\\p{L}\\d-]+)*\\.(?:${domainSuffixes.join('|')})(?![\\p{L}\\d])(?:\\/[^\\s<>"']*[^\\s<>"'.,;:!?)])?`, 'uy')],
+  // nama@mail.com
+  ['email', /[\p{L}\d._%+-]+@[\p{L}\d-]+(?:\.[\p{L}\d-]+)+/uy],
+  // 2026, 3,14, 10.000,00, Rp10.000,00, 1990-an, and attached letters (5kg, 1990an)
+  ['number', /(?:Rp)?\d+(?:[.,]\d+)*(?:-?\p{L}+)?/uy],
+  // kata, Jum'at, anak-anak, ke-20, COVID-19, café
+  ['word', /\p{L}[\p{L}\p{M}\d]*(?:['’][\p{L}\p{M}]+)*(?:-[\p{L}\p{M}\d]+)*/uy],
+  // Ellipsis as a single mark, then single punctuation marks
+  ['punctuation', /\.{3}|…|[.,!?;:"'“”‘’«»()[\]{}\-–—/]/uy],
+  // Anything else that is not whitespace: %, &, @, #, +, =, emoji
+  ['symbol', /[^\s]/uy],
+];
+
+const whitespace = /\s+/y;
+
+// Split text into tokens. Whitespace is not a token; the gap between two
+// tokens is always text.slice(previous.end, next.start).
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    whitespace.lastIndex = position;
+    if (whitespace.test(text)) {
+      position = whitespace.lastIndex;
+      continue;
+    }
+
+    for (const [kind, pattern] of tokenPatterns) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(text);
+      if (match && match[0].length > 0) {
+        tokens.push({ text: match[0], kind, start: position, end: position + match[0].length });
+        position += match[0].length;
+        break;
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// Check if only whitespace separates two tokens
+export const isSeparatedBySpace = (text: string, previous: Token, next: Token): boolean =>
+  next.start > previous.end && /^\s+$/.test(text.slice(previous.end, next.start));
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { FileUpload } from '@/components/FileUpload';
 import { TextPreview } from '@/components/TextPreview';
 import { checkGrammar, type GrammarError } from '@/lib/grammarChecker';
+import { applyFixes, type Fix } from '@/lib/corrections';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -28,6 +29,20 @@ const Index = () => {
     }, 1500);
   };
 
+  // Check the text again after words were added to a custom dictionary
+  const handleDictionaryChange = () => {
+    setErrors(checkGrammar(fileContent, margins));
+  };
+
+  // Apply accepted replacements and check the corrected text again, since a
+  // fix may leave or create errors next to it ("jam 9" -> "pukul 09.00" at
+  // the start of a sentence still needs a capital)
+  const handleApplyFixes = (fixes: Fix[]) => {
+    const corrected = applyFixes(fileContent, fixes);
+    setFileContent(corrected);
+    setErrors(checkGrammar(corrected, margins));
+  };
+
   const resetAnalysis = () => {
     setFileContent('');
     setFilename('');
@@ -61,6 +76,8 @@ const Index = () => {
               content={fileContent} 
               filename={filename} 
               errors={errors}
+              onDictionaryChange={handleDictionaryChange}
+              onApplyFixes={handleApplyFixes}
             />
           )}
         </div>